@@ -0,0 +1,169 @@
+/**
+ * React context owning the FHEVM client: configuration, initialization
+ * policy and the connected wallet live in one place instead of every page.
+ * Each provider keeps its own store, so several providers can run side by side
+ */
+
+import { createContext, createElement, useContext, useEffect, useLayoutEffect, useMemo, useState, ReactNode } from 'react';
+import {
+  FhevmClient,
+  FhevmClientConfig,
+  FhevmNotInitializedError,
+  FhevmStore,
+  fhevmStore,
+  createFhevmStore,
+  followFhevmClient,
+  getDefaultClient,
+  setFhevmWallet,
+  initializeFhevm,
+  reinitializeFhevm,
+} from '../core/index.js';
+import { useStoreState } from './useFhevmStore.js';
+
+/** 'eager' initializes as soon as the wallet is connected, 'lazy' on the first encrypt or decrypt */
+export type FhevmInitialization = 'eager' | 'lazy';
+
+/** Connected wallet as the app's connector reports it, e.g. wagmi's useAccount() */
+export interface FhevmProviderWallet {
+  address?: string;
+  chainId?: number;
+  isConnected: boolean;
+  /** EIP-1193 provider of the connected wallet; defaults to window.ethereum */
+  provider?: any;
+}
+
+export interface FhevmProviderProps {
+  /** Client configuration, read once on mount */
+  config?: FhevmClientConfig;
+  /** Existing client to use instead of creating one from config */
+  client?: FhevmClient;
+  /** Defaults to 'eager' */
+  initialization?: FhevmInitialization;
+  /** Without it, 'eager' initializes on mount */
+  wallet?: FhevmProviderWallet;
+  children?: ReactNode;
+}
+
+export interface FhevmContextValue {
+  client: FhevmClient;
+  /** Status, wallet, pending operations and decrypted values of this provider's client */
+  store: FhevmStore;
+  initialization: FhevmInitialization;
+  /** Initialize the client; concurrent calls share one initialization. Also retries after an error */
+  initialize(): Promise<any>;
+  /** The client once it has an instance, initializing it first if needed */
+  ready(): Promise<FhevmClient>;
+}
+
+const FhevmContext = createContext<FhevmContextValue | null>(null);
+
+/** The surrounding FhevmProvider, or null when hooks run on the default client */
+export function useFhevmContext(): FhevmContextValue | null {
+  return useContext(FhevmContext);
+}
+
+/** Client the SDK hooks operate on */
+export function useFhevmClient(): FhevmClient {
+  return useFhevmContext()?.client ?? getDefaultClient();
+}
+
+/**
+ * Resolve the client for an operation: the provider's, initialized on demand, or the default client
+ */
+export function resolveClient(context: FhevmContextValue | null): Promise<FhevmClient> {
+  return context ? context.ready() : Promise.resolve(getDefaultClient());
+}
+
+/** Wait for an initialization already in progress */
+function waitForInstance(store: FhevmStore): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const unsubscribe = store.subscribe(state => {
+      if (state.status === 'ready') {
+        unsubscribe();
+        resolve();
+      } else if (state.status === 'error' || state.status === 'idle') {
+        unsubscribe();
+        reject(new FhevmNotInitializedError(state.errors.initialize || undefined));
+      }
+    });
+  });
+}
+
+export function FhevmProvider({ config, client, initialization = 'eager', wallet, children }: FhevmProviderProps) {
+  const [ownClient] = useState(() => client ?? new FhevmClient(config));
+  const [store] = useState(() => createFhevmStore(ownClient));
+
+  const value = useMemo<FhevmContextValue>(() => {
+    const initialize = () => initializeFhevm(undefined, store);
+
+    const ready = async () => {
+      if (!ownClient.isInitialized()) {
+        // A wallet switch rebuilds the instance on its own; wait for it instead of racing it
+        await (store.getState().status === 'loading' ? waitForInstance(store) : initialize());
+      }
+      return ownClient;
+    };
+
+    return { client: ownClient, store, initialization, initialize, ready };
+  }, [ownClient, store, initialization]);
+
+  // Layout effect: the store follows the client before any child's effects call into the SDK
+  useLayoutEffect(() => {
+    const unfollow = followFhevmClient(store);
+    return () => {
+      unfollow();
+      // A client passed in by the app is the app's to dispose
+      if (!client) ownClient.dispose();
+    };
+  }, [ownClient, store, client]);
+
+  const isConnected = wallet ? wallet.isConnected : true;
+  const hasWallet = wallet !== undefined;
+
+  // Read from the source: this provider's store only mirrors the wallet in an effect, after the first render
+  const pickedProvider = useStoreState(fhevmStore, state => state.wallet.provider);
+  const walletProvider = hasWallet ? wallet.provider : pickedProvider;
+
+  // Layout effect: the client is on the wallet's provider before the eager initialization below runs,
+  // so it never starts on window.ethereum only to be rebuilt. Later switches rebuild the instance
+  useLayoutEffect(() => {
+    if (!walletProvider || walletProvider === ownClient.getConfig().provider) return;
+    ownClient.setProvider(walletProvider);
+    reinitializeFhevm(store).catch(() => undefined);
+  }, [walletProvider, ownClient, store]);
+
+  useEffect(() => {
+    if (wallet) {
+      setFhevmWallet({
+        address: wallet.address ?? '',
+        chainId: wallet.chainId ?? 0,
+        isConnected: wallet.isConnected,
+        provider: wallet.provider,
+      }, store);
+    }
+  }, [wallet?.address, wallet?.chainId, wallet?.isConnected, wallet?.provider, store]);
+
+  // Without a connector, follow the wallet picked and connected through useWallet()
+  useEffect(() => {
+    if (hasWallet) return;
+    setFhevmWallet(fhevmStore.getState().wallet, store);
+    return fhevmStore.subscribe((state, previous) => {
+      if (state.wallet !== previous.wallet) setFhevmWallet(state.wallet, store);
+    });
+  }, [hasWallet, store]);
+
+  useEffect(() => {
+    if (!isConnected) {
+      if (ownClient.isInitialized()) ownClient.dispose();
+      return;
+    }
+    // Chain and account switches are handled by the client; only start from scratch here, on the wallet's provider
+    if (walletProvider && ownClient.getConfig().provider !== walletProvider) return;
+    const { status } = store.getState();
+    if (initialization === 'eager' && (status === 'idle' || status === 'error')) {
+      value.initialize().catch(() => undefined);
+    }
+  }, [isConnected, walletProvider, initialization, value, ownClient, store]);
+
+  return createElement(FhevmContext.Provider, { value }, children);
+}
@@ -9,7 +9,19 @@
 export { useWallet } from './useWallet.js';
 export { useFhevm } from './useFhevm.js';
 export { useContract } from './useContract.js';
-export { useDecrypt } from './useDecrypt.js';
+export type { UseContractResult } from './useContract.js';
+export { useContractRead, useContractReads, contractReadKey } from './useContractRead.js';
+export type { ContractReadCall, UseContractReadOptions, UseContractReadsOptions } from './useContractRead.js';
+export { useContractWrite } from './useContractWrite.js';
+export type { ContractWriteStatus, ContractWriteResult, UseContractWriteOptions } from './useContractWrite.js';
+export { useDecrypt, useUserDecrypt, usePublicDecrypt, useVerifyDecryption } from './useDecrypt.js';
+export type { UserDecryptOptions } from './useDecrypt.js';
+export type { OperationStatus } from './useOperation.js';
 export { useEncrypt } from './useEncrypt.js';
+export { useEncryptedValue } from './useEncryptedValue.js';
+export type { EncryptedValueMode, EncryptedValueStatus, UseEncryptedValueOptions } from './useEncryptedValue.js';
+export { useFhevmStore } from './useFhevmStore.js';
+export { FhevmProvider, useFhevmContext, useFhevmClient } from './FhevmProvider.js';
+export type { FhevmProviderProps, FhevmProviderWallet, FhevmInitialization, FhevmContextValue } from './FhevmProvider.js';
 
 
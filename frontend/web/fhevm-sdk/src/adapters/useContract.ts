@@ -2,34 +2,89 @@
  * Wagmi-like hook for contract interactions
  */
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { ethers } from 'ethers';
+import { ContractFactoryLike, toFhevmError, watchWallet } from '../core/index.js';
+import { useFhevmStore } from './useFhevmStore.js';
 
-export function useContract(address: string, abi: any[]) {
-  const [contract, setContract] = useState<ethers.Contract | null>(null);
-  const [isReady, setIsReady] = useState(false);
-  const [error, setError] = useState<string>('');
+export interface UseContractResult<T extends ethers.BaseContract> {
+  /** Read-only instance on the wallet's provider; null until a provider and address are available */
+  contract: T | null;
+  /** Signer-connected instance, created on first call and reused until the account or chain changes */
+  write(): Promise<T>;
+  isReady: boolean;
+  error: string;
+}
+
+interface ContractState<T> {
+  contract: T | null;
+  provider: ethers.BrowserProvider | null;
+  error: string;
+}
+
+/**
+ * Typed contract from a typechain factory:
+ * useContract(UniversalFHEAdapter__factory, address)
+ */
+export function useContract<T extends ethers.BaseContract>(factory: ContractFactoryLike<T>, address: string): UseContractResult<T>;
+/** Untyped contract from a plain ABI */
+export function useContract(address: string, abi: ethers.InterfaceAbi): UseContractResult<ethers.Contract>;
+export function useContract(first: ContractFactoryLike | string, second: any): UseContractResult<any> {
+  const fromAbi = typeof first === 'string';
+  const address: string = fromAbi ? first : second;
+  // Inline ABI arrays are new on every render; only a different ABI rebuilds the contract
+  const abiKey = fromAbi && second ? JSON.stringify(second) : '';
+  const factory = useMemo<ContractFactoryLike | null>(() => {
+    if (!fromAbi) return first;
+    return abiKey ? { connect: (target, runner) => new ethers.Contract(target, JSON.parse(abiKey), runner) } : null;
+  }, [fromAbi ? abiKey : first]);
+
+  const [state, setState] = useState<ContractState<any>>({ contract: null, provider: null, error: '' });
+  // Wallet picked with selectWallet() or connected through FhevmProvider (e.g. wagmi), else the injected one
+  const walletProvider = useFhevmStore(state => state.wallet.provider);
+  const account = useFhevmStore(state => state.wallet.address);
+  const chainId = useFhevmStore(state => state.wallet.chainId);
+
+  // The wallet reports account and chain changes only while someone watches it
+  useEffect(() => watchWallet(), []);
 
   useEffect(() => {
-    if (!window.ethereum || !address || !abi) return;
+    const eip1193 = walletProvider ?? (typeof window !== 'undefined' ? window.ethereum : undefined);
+    if (!eip1193 || !address || !factory) {
+      setState({ contract: null, provider: null, error: '' });
+      return;
+    }
 
     try {
-      const provider = new ethers.BrowserProvider(window.ethereum);
-      const contractInstance = new ethers.Contract(address, abi, provider);
-      setContract(contractInstance);
-      setIsReady(true);
-      setError('');
+      // New provider per chain: ethers providers fail once the network under them changes
+      const provider = new ethers.BrowserProvider(eip1193);
+      setState({ contract: factory.connect(address, provider), provider, error: '' });
     } catch (err) {
-      setError(err instanceof Error ? err.message : 'Contract setup failed');
-      setIsReady(false);
+      setState({ contract: null, provider: null, error: err instanceof Error ? err.message : 'Contract setup failed' });
     }
-  }, [address, abi]);
+  }, [factory, address, walletProvider, account, chainId]);
+
+  const write = useMemo(() => {
+    let signed: Promise<any> | null = null;
+    return () => {
+      const { contract, provider } = state;
+      if (!contract || !provider) return Promise.reject(new Error('Contract is not ready'));
+      // Asks the wallet for the signer once; a rejected request can be retried
+      signed ??= provider.getSigner(account || undefined).then(
+        signer => contract.connect(signer),
+        err => {
+          signed = null;
+          throw toFhevmError(err);
+        }
+      );
+      return signed;
+    };
+  }, [state, account]);
 
   return {
-    contract,
-    isReady,
-    error,
+    contract: state.contract,
+    write,
+    isReady: state.contract !== null,
+    error: state.error,
   };
 }
-
-
@@ -0,0 +1,82 @@
+/**
+ * Wagmi-like hooks for cached contract reads, built on @tanstack/react-query
+ */
+
+import { useQuery, useQueries, QueryKey, UseQueryOptions, UseQueryResult } from '@tanstack/react-query';
+import { ethers } from 'ethers';
+import { toFhevmError } from '../core/index.js';
+import { useFhevmStore } from './useFhevmStore.js';
+
+export interface ContractReadCall {
+  functionName: string;
+  args?: readonly unknown[];
+}
+
+export interface UseContractReadOptions extends ContractReadCall {
+  /** Contract created from an address string, e.g. useContract().contract */
+  contract: ethers.BaseContract | null | undefined;
+  enabled?: boolean;
+  /** Milliseconds a result stays fresh; defaults to the QueryClient's */
+  staleTime?: number;
+}
+
+export interface UseContractReadsOptions {
+  contract: ethers.BaseContract | null | undefined;
+  calls: ContractReadCall[];
+  enabled?: boolean;
+  staleTime?: number;
+}
+
+/**
+ * Query key of contract reads, for invalidation: every read of a contract,
+ * of one function, or of one call
+ */
+export function contractReadKey(address: string, functionName?: string, args?: readonly unknown[]): QueryKey {
+  const key: unknown[] = ['fhevm-contract-read', address.toLowerCase()];
+  if (functionName) key.push(functionName);
+  // Query keys are hashed as JSON, which has no bigint
+  if (functionName && args) key.push(args.map(arg => (typeof arg === 'bigint' ? arg.toString() : arg)));
+  return key;
+}
+
+function readQuery(
+  contract: ethers.BaseContract | null | undefined,
+  { functionName, args = [] }: ContractReadCall,
+  chainId: number,
+  enabled = true,
+  staleTime?: number
+): UseQueryOptions<any, Error> {
+  return {
+    // The wallet's chain is part of the key so a chain switch never serves another chain's result
+    queryKey: [...contractReadKey(contract ? String(contract.target) : '', functionName, args), chainId],
+    queryFn: async () => {
+      // refetch() runs even while the query is disabled
+      if (!contract) throw new Error('Contract is not ready');
+      try {
+        return await contract.getFunction(functionName).staticCall(...args);
+      } catch (err) {
+        throw toFhevmError(err, contract.interface);
+      }
+    },
+    enabled: enabled && !!contract,
+    staleTime,
+    // Structural sharing would copy ethers Result objects into plain arrays and lose their named fields
+    structuralSharing: false,
+  };
+}
+
+/**
+ * Read a view function, cached until it goes stale or a useContractWrite on the same contract confirms
+ */
+export function useContractRead<R = any>({ contract, enabled, staleTime, ...call }: UseContractReadOptions): UseQueryResult<R, Error> {
+  const chainId = useFhevmStore(state => state.wallet.chainId);
+  return useQuery(readQuery(contract, call, chainId, enabled, staleTime));
+}
+
+/**
+ * Several reads of one contract, one cached query each, e.g. one per id from a list read
+ */
+export function useContractReads<R = any>({ contract, calls, enabled, staleTime }: UseContractReadsOptions): UseQueryResult<R, Error>[] {
+  const chainId = useFhevmStore(state => state.wallet.chainId);
+  return useQueries({ queries: calls.map(call => readQuery(contract, call, chainId, enabled, staleTime)) });
+}
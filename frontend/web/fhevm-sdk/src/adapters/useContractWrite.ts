@@ -0,0 +1,92 @@
+/**
+ * Wagmi-like hook for contract transactions: signing, confirmation and refetching the reads they change
+ */
+
+import { useCallback, useState } from 'react';
+import { useMutation, useQueryClient, QueryKey } from '@tanstack/react-query';
+import { ethers } from 'ethers';
+import { toFhevmError } from '../core/index.js';
+import { contractReadKey } from './useContractRead.js';
+
+/** idle → signing (wallet prompt) → pending (mined) → confirmed, or failed at either step */
+export type ContractWriteStatus = 'idle' | 'signing' | 'pending' | 'confirmed' | 'failed';
+
+export interface ContractWriteResult {
+  hash: string;
+  receipt: ethers.TransactionReceipt;
+  /** Events the contract emitted in the transaction */
+  events: ethers.LogDescription[];
+}
+
+export interface UseContractWriteOptions<T extends ethers.BaseContract> {
+  /** Signer-connected contract, or a function resolving one such as useContract().write */
+  contract: T | null | undefined | (() => Promise<T | null>);
+  functionName: string;
+  /** Reads to refetch on confirmation besides those of the same contract, which always are */
+  invalidates?: QueryKey[];
+  onConfirmed?(result: ContractWriteResult): void;
+}
+
+function decodeEvents(contract: ethers.BaseContract, address: string, receipt: ethers.TransactionReceipt) {
+  return receipt.logs.flatMap(log => {
+    if (log.address.toLowerCase() !== address.toLowerCase()) return [];
+    try {
+      const event = contract.interface.parseLog(log);
+      return event ? [event] : [];
+    } catch {
+      return [];
+    }
+  });
+}
+
+export function useContractWrite<T extends ethers.BaseContract>({ contract, functionName, invalidates = [], onConfirmed }: UseContractWriteOptions<T>) {
+  const queryClient = useQueryClient();
+  const [stage, setStage] = useState<'signing' | 'pending'>('signing');
+  const [hash, setHash] = useState<string>();
+
+  const mutation = useMutation<ContractWriteResult, Error, unknown[]>({
+    mutationFn: async args => {
+      setStage('signing');
+      setHash(undefined);
+      const target = typeof contract === 'function' ? await contract() : contract;
+      if (!target) throw new Error('Contract is not ready');
+
+      try {
+        const address = await target.getAddress();
+        const tx: ethers.ContractTransactionResponse = await target.getFunction(functionName)(...args);
+        setHash(tx.hash);
+        setStage('pending');
+
+        const receipt = await tx.wait();
+        if (!receipt) throw new Error('Transaction receipt is null');
+
+        for (const queryKey of [contractReadKey(address), ...invalidates]) {
+          queryClient.invalidateQueries({ queryKey });
+        }
+        return { hash: tx.hash, receipt, events: decodeEvents(target, address, receipt) };
+      } catch (err) {
+        // Decodes require() messages and custom errors into ContractRevertError
+        throw toFhevmError(err, target.interface);
+      }
+    },
+    onSuccess: result => onConfirmed?.(result),
+  });
+
+  const { mutateAsync } = mutation;
+  const write = useCallback((...args: unknown[]) => mutateAsync(args), [mutateAsync]);
+
+  const status: ContractWriteStatus = mutation.isPending
+    ? stage
+    : mutation.isSuccess ? 'confirmed' : mutation.isError ? 'failed' : 'idle';
+
+  return {
+    /** Send the transaction; resolves once it is mined */
+    write,
+    status,
+    hash,
+    receipt: mutation.data?.receipt ?? null,
+    events: mutation.data?.events ?? [],
+    error: mutation.error,
+    reset: mutation.reset,
+  };
+}
@@ -1,43 +1,130 @@
 /**
- * Wagmi-like hook for decryption operations - FHE v0.9
+ * Wagmi-like hooks for decryption operations - FHE v0.9
  */
 
-import { useState, useCallback } from 'react';
-import { publicDecryptV09 } from '../core/index.js';
+import { useCallback } from 'react';
+import { ethers } from 'ethers';
+import {
+  runFhevmOperation,
+  toFhevmError,
+  decryptHandle,
+  ClearValueOf,
+  FheHandle,
+  FheType,
+  PublicDecryptOptions,
+  PublicDecryptResult,
+} from '../core/index.js';
+import { useFhevmStore } from './useFhevmStore.js';
+import { useFhevmContext, resolveClient } from './FhevmProvider.js';
+import { useOperation, useWalletSigner } from './useOperation.js';
+import { useContractWrite, UseContractWriteOptions } from './useContractWrite.js';
 
+export interface UserDecryptOptions {
+  /** Signs the decryption session; defaults to the connected wallet */
+  signer?: ethers.Signer;
+}
+
+/**
+ * EIP-712 user decryption: the clear value is private to the caller and nothing is sent on-chain
+ */
+export function useUserDecrypt() {
+  const context = useFhevmContext();
+  const walletSigner = useWalletSigner();
+
+  // Shares the clear value cache with useEncryptedValue, so a handle is decrypted once per account
+  const { run, data, status, error, reset } = useOperation(async (handle: string, contractAddress: string, { signer }: UserDecryptOptions = {}) => {
+    const decryptor = signer ?? await walletSigner();
+    const account = await decryptor.getAddress();
+    return decryptHandle(handle, async () => {
+      const client = await resolveClient(context);
+      return client.userDecrypt(handle, contractAddress, decryptor);
+    }, { mode: 'user', account }, context?.store);
+  });
+
+  return {
+    /** Result typed by the handle: bigint for euintN, boolean for ebool, address for eaddress */
+    decrypt: run as <T extends FheType = FheType>(handle: FheHandle<T>, contractAddress: string, options?: UserDecryptOptions) => Promise<ClearValueOf<T>>,
+    value: data,
+    status,
+    error,
+    reset,
+  };
+}
+
+/**
+ * Public decryption: clear values plus the proof a contract checks, without sending anything
+ */
+export function usePublicDecrypt() {
+  const context = useFhevmContext();
+
+  const { run, data, status, error, reset } = useOperation((handles: string[], options?: PublicDecryptOptions) =>
+    runFhevmOperation('decrypt', async () => {
+      const client = await resolveClient(context);
+      return client.publicDecryptV09(handles, options);
+    }, 'Public decryption failed', context?.store)
+  );
+
+  return {
+    decrypt: run,
+    result: data,
+    status,
+    error,
+    reset,
+  };
+}
+
+/**
+ * On-chain verification of a public decryption: calls the contract function with its
+ * own arguments followed by abiEncodedClearValues and decryptionProof
+ */
+export function useVerifyDecryption<T extends ethers.BaseContract>(options: UseContractWriteOptions<T>) {
+  const { write, ...transaction } = useContractWrite(options);
+
+  const verify = useCallback(
+    (decryption: Pick<PublicDecryptResult, 'abiEncodedClearValues' | 'decryptionProof'>, ...args: unknown[]) =>
+      write(...args, decryption.abiEncodedClearValues, decryption.decryptionProof),
+    [write]
+  );
+
+  return { verify, ...transaction };
+}
+
+/**
+ * Public decryption followed by a verification transaction
+ * @deprecated use usePublicDecrypt and useVerifyDecryption, or useUserDecrypt for private values
+ */
 export function useDecrypt() {
-  const [isDecrypting, setIsDecrypting] = useState(false);
-  const [error, setError] = useState<string>('');
+  const isDecrypting = useFhevmStore(state => state.pending.decrypt > 0);
+  const error = useFhevmStore(state => state.errors.decrypt);
+  const context = useFhevmContext();
 
   const verifyDecryption = useCallback(async (
     handles: string[], 
     contractAddress: string, 
     verifyFunction: (abiEncodedClearValues: string, decryptionProof: string) => Promise<any>
   ) => {
-    setIsDecrypting(true);
-    setError('');
-    
-    try {
-      const decryptionResult = await publicDecryptV09(handles);
-      
-      const tx = await verifyFunction(
-        decryptionResult.abiEncodedClearValues,
-        decryptionResult.decryptionProof
-      );
-      
-      const receipt = await tx.wait();
-      
-      return {
-        decryptionResult,
-        transactionReceipt: receipt
-      };
-    } catch (err) {
-      setError(err instanceof Error ? err.message : 'Decryption verification failed');
-      throw err;
-    } finally {
-      setIsDecrypting(false);
-    }
-  }, []);
+    return runFhevmOperation('decrypt', async () => {
+      try {
+        const client = await resolveClient(context);
+        const decryptionResult = await client.publicDecryptV09(handles);
+
+        const tx = await verifyFunction(
+          decryptionResult.abiEncodedClearValues,
+          decryptionResult.decryptionProof
+        );
+
+        const receipt = await tx.wait();
+
+        return {
+          decryptionResult,
+          transactionReceipt: receipt
+        };
+      } catch (err) {
+        // Rejections and reverts of the verify transaction become typed SDK errors
+        throw toFhevmError(err);
+      }
+    }, 'Decryption verification failed', context?.store);
+  }, [context]);
 
   return {
     verifyDecryption,
@@ -2,33 +2,46 @@
  * Wagmi-like hook for encryption operations
  */
 
-import { useState, useCallback } from 'react';
-import { createEncryptedInput } from '../core/index.js';
+import { useCallback } from 'react';
+import { runFhevmOperation, EncryptedInputBuilder, OperationOptions } from '../core/index.js';
+import { useFhevmStore } from './useFhevmStore.js';
+import { useFhevmContext, resolveClient } from './FhevmProvider.js';
 
 export function useEncrypt() {
-  const [isEncrypting, setIsEncrypting] = useState(false);
-  const [error, setError] = useState<string>('');
+  // Pending count and last error are shared with every other useEncrypt() caller
+  const isEncrypting = useFhevmStore(state => state.pending.encrypt > 0);
+  const error = useFhevmStore(state => state.errors.encrypt);
+  const context = useFhevmContext();
 
-  const encrypt = useCallback(async (contractAddress: string, userAddress: string, value: number) => {
-    setIsEncrypting(true);
-    setError('');
-    
-    try {
-      const result = await createEncryptedInput(contractAddress, userAddress, value);
-      return result;
-    } catch (err) {
-      setError(err instanceof Error ? err.message : 'Encryption failed');
-      throw err;
-    } finally {
-      setIsEncrypting(false);
-    }
-  }, []);
+  const encrypt = useCallback(async (contractAddress: string, userAddress: string, value: number, options?: OperationOptions) => {
+    return runFhevmOperation('encrypt', async () => {
+      const client = await resolveClient(context);
+      return client.createEncryptedInput(contractAddress, userAddress, value, options);
+    }, 'Encryption failed', context?.store);
+  }, [context]);
+
+  /**
+   * Encrypt several typed values into one proof:
+   * encryptInput(contract, user, input => input.add64(tons).addBool(isPublic), { signal })
+   */
+  const encryptInput = useCallback(async (
+    contractAddress: string,
+    userAddress: string,
+    build: (input: EncryptedInputBuilder) => EncryptedInputBuilder | void,
+    options?: OperationOptions
+  ) => {
+    return runFhevmOperation('encrypt', async () => {
+      const client = await resolveClient(context);
+      const input = client.createInputBuilder(contractAddress, userAddress);
+      build(input);
+      return input.encrypt(options);
+    }, 'Encryption failed', context?.store);
+  }, [context]);
 
   return {
     encrypt,
+    encryptInput,
     isEncrypting,
     error,
   };
 }
-
-
@@ -0,0 +1,88 @@
+/**
+ * Wagmi-like hook for reading an encrypted value off-chain, without a transaction
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { ethers } from 'ethers';
+import { ClearValueOf, DecryptionAudience, FheHandle, FheType, decryptHandle, decryptedKey, toFhevmError } from '../core/index.js';
+import { useFhevmStore } from './useFhevmStore.js';
+import { useFhevmContext, resolveClient } from './FhevmProvider.js';
+import { useWalletSigner } from './useOperation.js';
+
+/** 'user': EIP-712 decryption for the connected account; 'public': handles marked publicly decryptable */
+export type EncryptedValueMode = 'user' | 'public';
+
+export type EncryptedValueStatus = 'hidden' | 'decrypting' | 'revealed' | 'error';
+
+export interface UseEncryptedValueOptions {
+  /** Defaults to 'user' */
+  mode?: EncryptedValueMode;
+  /** Signs the decryption session in 'user' mode; defaults to the connected wallet */
+  signer?: ethers.Signer;
+}
+
+export function useEncryptedValue<T extends FheType = FheType>(
+  handle: FheHandle<T> | null | undefined,
+  contractAddress: string,
+  { mode = 'user', signer }: UseEncryptedValueOptions = {}
+) {
+  const context = useFhevmContext();
+  const walletSigner = useWalletSigner();
+  // Key of the last reveal: shared by every component showing the handle to the same account, dropped on account switch
+  const [revealedKey, setRevealedKey] = useState<string | null>(null);
+  const known = useFhevmStore(state => (revealedKey ? state.decrypted[revealedKey] : undefined));
+  const revealed = revealedKey !== null;
+  const [isDecrypting, setIsDecrypting] = useState(false);
+  const [error, setError] = useState('');
+  const currentHandle = useRef(handle);
+  currentHandle.current = handle;
+
+  // A new handle is a new ciphertext: start hidden again
+  useEffect(() => {
+    setRevealedKey(null);
+    setError('');
+  }, [handle]);
+
+  const reveal = useCallback(async (): Promise<ClearValueOf<T>> => {
+    if (!handle) throw new Error('No handle to decrypt');
+
+    setIsDecrypting(true);
+    setError('');
+    try {
+      const decryptor = mode === 'user' ? signer ?? await walletSigner() : null;
+      const audience: DecryptionAudience = decryptor ? { mode: 'user', account: await decryptor.getAddress() } : { mode: 'public' };
+      // Decrypts only handles not already known to this audience; user decryption reuses the signed session
+      const value = await decryptHandle(handle, async () => {
+        const client = await resolveClient(context);
+        if (!decryptor) {
+          const result = await client.publicDecryptV09([handle]);
+          return result.clearValues[handle];
+        }
+        return client.userDecrypt(handle, contractAddress, decryptor);
+      }, audience, context?.store);
+      if (currentHandle.current === handle) setRevealedKey(decryptedKey(handle, audience));
+      return value as ClearValueOf<T>;
+    } catch (err) {
+      const fhevmError = toFhevmError(err);
+      if (currentHandle.current === handle) setError(fhevmError.message);
+      throw fhevmError;
+    } finally {
+      setIsDecrypting(false);
+    }
+  }, [handle, contractAddress, mode, signer, context, walletSigner]);
+
+  /** Stop showing the value; it stays cached, so reveal() again needs no decryption */
+  const hide = useCallback(() => setRevealedKey(null), []);
+
+  const status: EncryptedValueStatus = isDecrypting
+    ? 'decrypting'
+    : error ? 'error' : revealed && known !== undefined ? 'revealed' : 'hidden';
+
+  return {
+    value: status === 'revealed' ? (known as ClearValueOf<T>) : null,
+    status,
+    error,
+    reveal,
+    hide,
+  };
+}
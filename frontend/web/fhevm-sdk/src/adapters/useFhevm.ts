@@ -2,36 +2,26 @@
  * Wagmi-like hook for FHEVM instance
  */
 
-import { useState, useCallback } from 'react';
-import { initializeFheInstance } from '../core/index.js';
+import { initializeFhevm } from '../core/index.js';
+import { useFhevmStore } from './useFhevmStore.js';
+import { useFhevmContext } from './FhevmProvider.js';
 
 export function useFhevm() {
-  const [instance, setInstance] = useState<any>(null);
-  const [status, setStatus] = useState<'idle' | 'loading' | 'ready' | 'error'>('idle');
-  const [error, setError] = useState<string>('');
-
-  const initialize = useCallback(async () => {
-    setStatus('loading');
-    setError('');
-    
-    try {
-      const fheInstance = await initializeFheInstance();
-      setInstance(fheInstance);
-      setStatus('ready');
-      console.log('✅ FHEVM initialized');
-    } catch (err) {
-      setError(err instanceof Error ? err.message : 'Unknown error');
-      setStatus('error');
-      console.error('❌ FHEVM initialization failed:', err);
-    }
-  }, []);
+  // Shared by every component under the same provider: one initialization, one status
+  const state = useFhevmStore();
+  const context = useFhevmContext();
 
   return {
-    instance,
-    status,
-    error,
-    initialize,
-    isInitialized: status === 'ready',
+    instance: state.instance,
+    status: state.status,
+    error: state.errors.initialize,
+    // Inside an FhevmProvider, initialize() always targets the provider's client; call it again to retry after an error
+    initialize: context ? context.initialize : () => initializeFhevm(),
+    isInitialized: state.status === 'ready',
+    /** Lifecycle phase: wasm-loading, wasm-ready, fetching-public-key, instance-ready... */
+    phase: state.phase,
+    /** Overall initialization percentage (0-100) */
+    progress: state.progress,
   };
 }
 
@@ -0,0 +1,27 @@
+/**
+ * Subscribe a component to the FHEVM store of its FhevmProvider, or the default store
+ */
+
+import { useSyncExternalStore } from 'react';
+import { fhevmStore, FhevmState, FhevmStore } from '../core/index.js';
+import { useFhevmContext } from './FhevmProvider.js';
+
+const identity = (state: FhevmState) => state;
+
+/**
+ * Read the given store, re-rendering when the selected value changes
+ */
+export function useStoreState<T>(store: FhevmStore, selector: (state: FhevmState) => T): T {
+  const getSnapshot = () => selector(store.getState());
+  return useSyncExternalStore(store.subscribe, getSnapshot, getSnapshot);
+}
+
+/**
+ * Read the surrounding FhevmProvider's store, else the default one, re-rendering when the
+ * selected value changes. Selectors must return stored values or primitives, not new objects
+ */
+export function useFhevmStore(): FhevmState;
+export function useFhevmStore<T>(selector: (state: FhevmState) => T): T;
+export function useFhevmStore(selector: (state: FhevmState) => unknown = identity): unknown {
+  return useStoreState(useFhevmContext()?.store ?? fhevmStore, selector);
+}
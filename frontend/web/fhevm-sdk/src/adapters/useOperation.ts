@@ -0,0 +1,63 @@
+/**
+ * Status of one hook's own async operation, independent of other components
+ */
+
+import { useCallback, useRef, useState } from 'react';
+import { ethers } from 'ethers';
+import { toFhevmError } from '../core/index.js';
+import { useFhevmStore } from './useFhevmStore.js';
+
+export type OperationStatus = 'idle' | 'pending' | 'success' | 'error';
+
+interface OperationState<R> {
+  status: OperationStatus;
+  data: R | null;
+  error: Error | null;
+}
+
+const IDLE: OperationState<never> = { status: 'idle', data: null, error: null };
+
+/**
+ * Wrap an operation with status, last result and typed error; only the latest call updates them
+ */
+export function useOperation<A extends unknown[], R>(operation: (...args: A) => Promise<R>) {
+  const [state, setState] = useState<OperationState<R>>(IDLE);
+  const latest = useRef(0);
+  const current = useRef(operation);
+  current.current = operation;
+
+  const run = useCallback(async (...args: A): Promise<R> => {
+    const call = ++latest.current;
+    setState(state => ({ ...state, status: 'pending', error: null }));
+    try {
+      const data = await current.current(...args);
+      if (call === latest.current) setState({ status: 'success', data, error: null });
+      return data;
+    } catch (err) {
+      const error = toFhevmError(err);
+      if (call === latest.current) setState({ status: 'error', data: null, error });
+      throw error;
+    }
+  }, []);
+
+  const reset = useCallback(() => {
+    latest.current++;
+    setState(IDLE);
+  }, []);
+
+  return { ...state, run, reset };
+}
+
+/**
+ * Signer of the connected wallet: the selected or FhevmProvider's (e.g. wagmi), else window.ethereum
+ */
+export function useWalletSigner(): () => Promise<ethers.Signer> {
+  const walletProvider = useFhevmStore(state => state.wallet.provider);
+  const account = useFhevmStore(state => state.wallet.address);
+
+  return useCallback(async () => {
+    const eip1193 = walletProvider ?? (typeof window !== 'undefined' ? window.ethereum : undefined);
+    if (!eip1193) throw new Error('No wallet connected');
+    return new ethers.BrowserProvider(eip1193).getSigner(account || undefined);
+  }, [walletProvider, account]);
+}
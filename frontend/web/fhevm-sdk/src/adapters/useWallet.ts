@@ -2,90 +2,35 @@
  * Wagmi-like hook for wallet connection
  */
 
-import { useState, useCallback, useEffect } from 'react';
+import { useEffect, useMemo } from 'react';
+import { connectWallet, disconnectWallet, discoverWallets, fhevmStore, selectWallet, watchWallet } from '../core/index.js';
+import { useStoreState } from './useFhevmStore.js';
 
 export function useWallet() {
-  const [address, setAddress] = useState<string>('');
-  const [isConnected, setIsConnected] = useState(false);
-  const [chainId, setChainId] = useState<number>(0);
-  const [isConnecting, setIsConnecting] = useState(false);
-  const [error, setError] = useState<string>('');
+  // The browser wallet is page-wide: read the default store even inside an FhevmProvider
+  const wallet = useStoreState(fhevmStore, state => state.wallet);
+  const error = useStoreState(fhevmStore, state => state.errors.wallet);
+  const announced = useStoreState(fhevmStore, state => state.wallets);
+  const wallets = useMemo(() => announced.map(({ info }) => info), [announced]);
 
-  // Listen for chain changes
-  useEffect(() => {
-    if (!window.ethereum) return;
-
-    const handleChainChanged = async (chainIdHex: string) => {
-      const newChainId = parseInt(chainIdHex, 16);
-      setChainId(newChainId);
-      console.log('🔄 Chain changed to:', newChainId);
-    };
-
-    const handleAccountsChanged = (accounts: string[]) => {
-      if (accounts.length === 0) {
-        // User disconnected
-        setAddress('');
-        setIsConnected(false);
-        setChainId(0);
-      } else {
-        setAddress(accounts[0]);
-      }
-    };
-
-    window.ethereum.on('chainChanged', handleChainChanged);
-    window.ethereum.on('accountsChanged', handleAccountsChanged);
-
-    return () => {
-      window.ethereum?.removeListener('chainChanged', handleChainChanged);
-      window.ethereum?.removeListener('accountsChanged', handleAccountsChanged);
-    };
-  }, []);
-
-  const connect = useCallback(async () => {
-    if (!window.ethereum) {
-      setError('MetaMask not found. Please install MetaMask.');
-      return;
-    }
-
-    setIsConnecting(true);
-    setError('');
-
-    try {
-      const accounts = await window.ethereum.request({ method: 'eth_requestAccounts' });
-      const account = accounts[0];
-      setAddress(account);
-      setIsConnected(true);
-
-      const chainId = await window.ethereum.request({ method: 'eth_chainId' });
-      setChainId(parseInt(chainId, 16));
-
-      console.log('✅ Wallet connected:', account);
-    } catch (err) {
-      setError(err instanceof Error ? err.message : 'Connection failed');
-      console.error('❌ Wallet connection failed:', err);
-    } finally {
-      setIsConnecting(false);
-    }
-  }, []);
-
-  const disconnect = useCallback(() => {
-    setAddress('');
-    setIsConnected(false);
-    setChainId(0);
-    setError('');
-    console.log('🔌 Wallet disconnected');
-  }, []);
+  // Listen for chain and account changes; listeners are shared across components
+  useEffect(() => watchWallet(), []);
+  // Installed wallets announce themselves through EIP-6963
+  useEffect(() => discoverWallets(), []);
 
   return {
-    address,
-    isConnected,
-    chainId,
-    isConnecting,
+    address: wallet.address,
+    isConnected: wallet.isConnected,
+    chainId: wallet.chainId,
+    isConnecting: wallet.isConnecting,
     error,
-    connect,
-    disconnect,
+    /** Announced wallets: { uuid, name, icon, rdns } */
+    wallets,
+    /** rdns of the selected wallet; remembered across visits */
+    selectedWallet: wallet.rdns ?? null,
+    selectWallet,
+    /** connect() uses the selected wallet, connect(rdns) selects one first */
+    connect: connectWallet,
+    disconnect: disconnectWallet,
   };
 }
-
-
-
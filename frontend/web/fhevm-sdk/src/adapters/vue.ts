@@ -0,0 +1,372 @@
+/**
+ * Vue Adapter - Universal FHEVM SDK
+ * Vue 3 composables mirroring the React hooks, backed by the same core store
+ */
+
+import { ref, shallowRef, computed, watch, unref, getCurrentScope, onScopeDispose, MaybeRef } from 'vue';
+import { ethers } from 'ethers';
+import {
+  fhevmStore,
+  initializeFhevm,
+  runFhevmOperation,
+  connectWallet,
+  disconnectWallet,
+  watchWallet,
+  discoverWallets,
+  selectWallet,
+  createEncryptedInput,
+  createInputBuilder,
+  publicDecryptV09,
+  userDecrypt,
+  decryptHandle,
+  toFhevmError,
+  EncryptedInputBuilder,
+  OperationOptions,
+  ClearValueOf,
+  FheHandle,
+  FheType,
+  PublicDecryptOptions,
+  PublicDecryptResult,
+} from '../core/index.js';
+
+/** Run cleanup when the calling component or effect scope goes away */
+function onDispose(fn: () => void) {
+  if (getCurrentScope()) onScopeDispose(fn);
+}
+
+/**
+ * Shared FHEVM store state as a ref, updated until the scope is disposed
+ */
+export function useFhevmStore() {
+  const state = shallowRef(fhevmStore.getState());
+  onDispose(fhevmStore.subscribe(next => {
+    state.value = next;
+  }));
+  return state;
+}
+
+/**
+ * Wallet connection composable
+ */
+export function useWallet() {
+  const state = useFhevmStore();
+
+  // Listen for chain and account changes; listeners are shared across components
+  onDispose(watchWallet());
+  // Installed wallets announce themselves through EIP-6963
+  onDispose(discoverWallets());
+
+  return {
+    address: computed(() => state.value.wallet.address),
+    isConnected: computed(() => state.value.wallet.isConnected),
+    chainId: computed(() => state.value.wallet.chainId),
+    isConnecting: computed(() => state.value.wallet.isConnecting),
+    error: computed(() => state.value.errors.wallet),
+    /** Announced wallets: { uuid, name, icon, rdns } */
+    wallets: computed(() => state.value.wallets.map(({ info }) => info)),
+    /** rdns of the selected wallet; remembered across visits */
+    selectedWallet: computed(() => state.value.wallet.rdns ?? null),
+    selectWallet,
+    /** connect() uses the selected wallet, connect(rdns) selects one first */
+    connect: connectWallet,
+    disconnect: disconnectWallet,
+  };
+}
+
+/**
+ * FHEVM instance composable
+ */
+export function useFhevm() {
+  // Shared by every component: one initialization, one status
+  const state = useFhevmStore();
+
+  return {
+    instance: computed(() => state.value.instance),
+    status: computed(() => state.value.status),
+    error: computed(() => state.value.errors.initialize),
+    initialize: initializeFhevm,
+    isInitialized: computed(() => state.value.status === 'ready'),
+    /** Lifecycle phase: wasm-loading, wasm-ready, fetching-public-key, instance-ready... */
+    phase: computed(() => state.value.phase),
+    /** Overall initialization percentage (0-100) */
+    progress: computed(() => state.value.progress),
+  };
+}
+
+/**
+ * Encryption composable
+ */
+export function useEncrypt() {
+  const state = useFhevmStore();
+
+  const encrypt = (contractAddress: string, userAddress: string, value: number, options?: OperationOptions) =>
+    runFhevmOperation('encrypt', () => createEncryptedInput(contractAddress, userAddress, value, options), 'Encryption failed');
+
+  /**
+   * Encrypt several typed values into one proof:
+   * encryptInput(contract, user, input => input.add64(tons).addBool(isPublic), { signal })
+   */
+  const encryptInput = (
+    contractAddress: string,
+    userAddress: string,
+    build: (input: EncryptedInputBuilder) => EncryptedInputBuilder | void,
+    options?: OperationOptions
+  ) =>
+    runFhevmOperation('encrypt', async () => {
+      const input = createInputBuilder(contractAddress, userAddress);
+      build(input);
+      return input.encrypt(options);
+    }, 'Encryption failed');
+
+  return {
+    encrypt,
+    encryptInput,
+    isEncrypting: computed(() => state.value.pending.encrypt > 0),
+    error: computed(() => state.value.errors.encrypt),
+  };
+}
+
+type OperationStatus = 'idle' | 'pending' | 'success' | 'error';
+
+/**
+ * Status, last result and typed error of one composable's own calls; only the latest call updates them
+ */
+function useOperation<A extends unknown[], R>(operation: (...args: A) => Promise<R>) {
+  const status = ref<OperationStatus>('idle');
+  const data = shallowRef<R | null>(null);
+  const error = shallowRef<Error | null>(null);
+  let latest = 0;
+
+  const run = async (...args: A): Promise<R> => {
+    const call = ++latest;
+    status.value = 'pending';
+    error.value = null;
+    try {
+      const result = await operation(...args);
+      if (call === latest) {
+        status.value = 'success';
+        data.value = result;
+      }
+      return result;
+    } catch (err) {
+      const typed = toFhevmError(err);
+      if (call === latest) {
+        status.value = 'error';
+        data.value = null;
+        error.value = typed;
+      }
+      throw typed;
+    }
+  };
+
+  const reset = () => {
+    latest++;
+    status.value = 'idle';
+    data.value = null;
+    error.value = null;
+  };
+
+  return { status, data, error, run, reset };
+}
+
+/**
+ * Signer of the connected wallet: the selected one, else window.ethereum
+ */
+async function walletSigner(): Promise<ethers.Signer> {
+  const { provider, address } = fhevmStore.getState().wallet;
+  const eip1193 = provider ?? (typeof window !== 'undefined' ? window.ethereum : undefined);
+  if (!eip1193) throw new Error('No wallet connected');
+  return new ethers.BrowserProvider(eip1193).getSigner(address || undefined);
+}
+
+export interface UserDecryptOptions {
+  /** Signs the decryption session; defaults to the connected wallet */
+  signer?: ethers.Signer;
+}
+
+/**
+ * EIP-712 user decryption composable: the clear value is private to the caller
+ */
+export function useUserDecrypt() {
+  // Shares the clear value cache with every other decryption of the same handle by the same account
+  const { run, data, status, error, reset } = useOperation(async (handle: string, contractAddress: string, { signer }: UserDecryptOptions = {}) => {
+    const decryptor = signer ?? await walletSigner();
+    const account = await decryptor.getAddress();
+    return decryptHandle(handle, () => userDecrypt(handle, contractAddress, decryptor), { mode: 'user', account });
+  });
+
+  return {
+    /** Result typed by the handle: bigint for euintN, boolean for ebool, address for eaddress */
+    decrypt: run as <T extends FheType = FheType>(handle: FheHandle<T>, contractAddress: string, options?: UserDecryptOptions) => Promise<ClearValueOf<T>>,
+    value: data,
+    status,
+    error,
+    reset,
+  };
+}
+
+/**
+ * Public decryption composable: clear values plus the proof a contract checks, without sending anything
+ */
+export function usePublicDecrypt() {
+  const { run, data, status, error, reset } = useOperation((handles: string[], options?: PublicDecryptOptions) =>
+    runFhevmOperation('decrypt', () => publicDecryptV09(handles, options), 'Public decryption failed')
+  );
+
+  return {
+    decrypt: run,
+    result: data,
+    status,
+    error,
+    reset,
+  };
+}
+
+/** idle → signing (wallet prompt) → pending (mined) → confirmed, or failed at either step */
+export type VerifyDecryptionStatus = 'idle' | 'signing' | 'pending' | 'confirmed' | 'failed';
+
+export interface UseVerifyDecryptionOptions<T extends ethers.BaseContract> {
+  /** Contract or a ref to it; a read-only one is connected to the wallet's signer. Or a function resolving one */
+  contract: MaybeRef<T | null | undefined> | (() => Promise<T | null>);
+  functionName: string;
+}
+
+/**
+ * On-chain verification of a public decryption: calls the contract function with its
+ * own arguments followed by abiEncodedClearValues and decryptionProof
+ */
+export function useVerifyDecryption<T extends ethers.BaseContract>({ contract, functionName }: UseVerifyDecryptionOptions<T>) {
+  const status = ref<VerifyDecryptionStatus>('idle');
+  const hash = ref<string>();
+  const receipt = shallowRef<ethers.TransactionReceipt | null>(null);
+  const error = shallowRef<Error | null>(null);
+
+  const verify = async (decryption: Pick<PublicDecryptResult, 'abiEncodedClearValues' | 'decryptionProof'>, ...args: unknown[]) => {
+    status.value = 'signing';
+    hash.value = undefined;
+    receipt.value = null;
+    error.value = null;
+
+    const target = typeof contract === 'function' ? await contract() : unref(contract);
+    try {
+      if (!target) throw new Error('Contract is not ready');
+      const runner = target.runner?.sendTransaction ? target : target.connect(await walletSigner());
+      const tx: ethers.ContractTransactionResponse = await runner.getFunction(functionName)(
+        ...args,
+        decryption.abiEncodedClearValues,
+        decryption.decryptionProof
+      );
+      hash.value = tx.hash;
+      status.value = 'pending';
+
+      const mined = await tx.wait();
+      if (!mined) throw new Error('Transaction receipt is null');
+      receipt.value = mined;
+      status.value = 'confirmed';
+      return { hash: tx.hash, receipt: mined };
+    } catch (err) {
+      // Decodes require() messages and custom errors into ContractRevertError
+      const typed = toFhevmError(err, target?.interface);
+      error.value = typed;
+      status.value = 'failed';
+      throw typed;
+    }
+  };
+
+  const reset = () => {
+    status.value = 'idle';
+    hash.value = undefined;
+    receipt.value = null;
+    error.value = null;
+  };
+
+  return { verify, status, hash, receipt, error, reset };
+}
+
+/**
+ * Public decryption followed by a verification transaction
+ * @deprecated use usePublicDecrypt and useVerifyDecryption, or useUserDecrypt for private values
+ */
+export function useDecrypt() {
+  const state = useFhevmStore();
+
+  const verifyDecryption = (
+    handles: string[],
+    contractAddress: string,
+    verifyFunction: (abiEncodedClearValues: string, decryptionProof: string) => Promise<any>
+  ) =>
+    runFhevmOperation('decrypt', async () => {
+      try {
+        const decryptionResult = await publicDecryptV09(handles);
+
+        const tx = await verifyFunction(
+          decryptionResult.abiEncodedClearValues,
+          decryptionResult.decryptionProof
+        );
+
+        const receipt = await tx.wait();
+
+        return {
+          decryptionResult,
+          transactionReceipt: receipt
+        };
+      } catch (err) {
+        // Rejections and reverts of the verify transaction become typed SDK errors
+        throw toFhevmError(err);
+      }
+    }, 'Decryption verification failed');
+
+  return {
+    verifyDecryption,
+    isDecrypting: computed(() => state.value.pending.decrypt > 0),
+    error: computed(() => state.value.errors.decrypt),
+  };
+}
+
+/**
+ * Contract composable; the address may be a ref and the contract follows it
+ */
+export function useContract(address: MaybeRef<string>, abi: any[]) {
+  const state = useFhevmStore();
+  const contract = shallowRef<ethers.Contract | null>(null);
+  const isReady = ref(false);
+  const error = ref('');
+
+  // The wallet reports account and chain changes only while someone watches it
+  onDispose(watchWallet());
+
+  // Follows the address and the selected wallet; a new provider per chain and account,
+  // since ethers providers fail once the network under them changes
+  const stop = watch([
+    () => unref(address),
+    () => state.value.wallet.provider,
+    () => state.value.wallet.address,
+    () => state.value.wallet.chainId,
+  ], ([current, walletProvider]) => {
+    const eip1193 = walletProvider ?? (typeof window !== 'undefined' ? window.ethereum : undefined);
+    if (!eip1193 || !current || !abi) {
+      contract.value = null;
+      isReady.value = false;
+      error.value = '';
+      return;
+    }
+
+    try {
+      const provider = new ethers.BrowserProvider(eip1193);
+      contract.value = new ethers.Contract(current, abi, provider);
+      isReady.value = true;
+      error.value = '';
+    } catch (err) {
+      contract.value = null;
+      error.value = err instanceof Error ? err.message : 'Contract setup failed';
+      isReady.value = false;
+    }
+  }, { immediate: true });
+  onDispose(stop);
+
+  return {
+    contract,
+    isReady,
+    error,
+  };
+}
@@ -0,0 +1,70 @@
+/**
+ * Wagmi Adapter - Universal FHEVM SDK
+ * Derives the EIP-1193 provider, ethers signer and chain from wagmi's connected
+ * connector, so wallets connected through RainbowKit (WalletConnect, Coinbase...)
+ * work for encryption and EIP-712 decryption too, not only window.ethereum
+ */
+
+import { createElement, useEffect, useMemo, useState } from 'react';
+import { useAccount, useConnectorClient } from 'wagmi';
+import type { Account, Chain, Client, Transport } from 'viem';
+import { ethers } from 'ethers';
+import { FhevmProvider, FhevmProviderProps, FhevmProviderWallet } from './FhevmProvider.js';
+
+/**
+ * ethers signer backed by a viem wallet client
+ */
+export function clientToSigner(client: Client<Transport, Chain, Account>): ethers.JsonRpcSigner {
+  const { account, chain, transport } = client;
+  const network = {
+    chainId: chain.id,
+    name: chain.name,
+    ensAddress: chain.contracts?.ensRegistry?.address,
+  };
+  const provider = new ethers.BrowserProvider(transport as ethers.Eip1193Provider, network);
+  return new ethers.JsonRpcSigner(provider, account.address);
+}
+
+/**
+ * ethers signer of the wagmi-connected account, for decryption sessions and contract writes
+ */
+export function useEthersSigner({ chainId }: { chainId?: number } = {}) {
+  const { data: client } = useConnectorClient({ chainId });
+  return useMemo(() => (client ? clientToSigner(client) : undefined), [client]);
+}
+
+/**
+ * Wagmi's connected account as FhevmProvider expects it. The provider is the
+ * connector's own EIP-1193 provider, which also emits chain and account changes
+ */
+export function useWagmiFhevmWallet(): FhevmProviderWallet {
+  const { address, chainId, isConnected, connector } = useAccount();
+  const [provider, setProvider] = useState<any>();
+
+  useEffect(() => {
+    if (!isConnected || !connector) {
+      setProvider(undefined);
+      return;
+    }
+
+    let current = true;
+    connector.getProvider().then(
+      eip1193 => { if (current) setProvider(eip1193); },
+      err => console.error('❌ Could not get the wallet connector provider:', err)
+    );
+    return () => {
+      current = false;
+    };
+  }, [connector, isConnected]);
+
+  // Connected only once the provider is known, so FhevmProvider waits for it instead of starting without one
+  return { address, chainId, isConnected: isConnected && !!provider, provider };
+}
+
+/**
+ * FhevmProvider fed by wagmi: initializes on connect, follows connector switches, disposes on disconnect
+ */
+export function WagmiFhevmProvider(props: Omit<FhevmProviderProps, 'wallet'>) {
+  const wallet = useWagmiFhevmWallet();
+  return createElement(FhevmProvider, { ...props, wallet });
+}
@@ -0,0 +1,847 @@
+/**
+ * FHEVM Client - Universal SDK
+ * Instantiable FHEVM client with explicit configuration, so several chains,
+ * relayers or test fixtures can live side by side in the same process
+ */
+
+import { ethers } from "ethers";
+import {
+  FhevmNetworkConfig,
+  FhevmNetworkOption,
+  resolveNetworkConfig,
+  findNetworkPreset,
+  toInstanceConfig,
+  assertProviderChainId,
+} from './networks.js';
+import { createEip1193Bridge } from './eip1193.js';
+import { createMockInstance, FhevmMode } from './mock.js';
+import { loadRelayerSdk, WasmAsset, WasmLoadingOptions, WasmProgressEvent, WASM_FILES } from './wasm.js';
+import { FhevmEventEmitter, FhevmLifecycleEvent, FhevmPhase } from './events.js';
+import {
+  PublicKeyCache,
+  PublicKeyCacheStorage,
+  IndexedDBKeyCacheStorage,
+  createInstanceWithKeyCache,
+} from './keycache.js';
+import { DecryptionSession, DecryptionSessionManager, DecryptionSessionStorage } from './session.js';
+import { EncryptedInputBuilder } from './encryption.js';
+import { RelayerGuard, ResilienceConfig, OperationOptions, withAbortSignal } from './resilience.js';
+import { WorkerFhevmInstance, WorkerOption, supportsWorkers, createFhevmWorker, bindSignal } from './worker.js';
+import {
+  FhevmInstanceResetError,
+  FhevmNotInitializedError,
+  InvalidHandleError,
+  OperationCancelledError,
+  ProofVerificationError,
+  toFhevmError,
+} from './errors.js';
+import {
+  isValidHandle,
+  chunkHandlesByBits,
+  toClearValue,
+  toSafeNumber,
+  abiEncodeClearValues,
+  ClearValue,
+  ClearValueOf,
+  FheHandle,
+  FheType,
+  MAX_USER_DECRYPT_CONTRACT_ADDRESSES,
+} from './handles.js';
+
+/**
+ * Explicit configuration for an FhevmClient
+ */
+export interface FhevmClientConfig {
+  /** Backend: the Zama relayer (default) or a local Hardhat FHEVM mock node */
+  mode?: FhevmMode;
+  /** Network preset, preset with overrides, or custom network. Defaults to 'sepolia', or 'hardhat-local' in mock mode */
+  network?: FhevmNetworkOption;
+  /** EIP-1193 provider; defaults to window.ethereum in the browser */
+  provider?: any;
+  /** JSON-RPC URL used in Node.js when no provider is given, and by the mock node; defaults to the network's rpcUrl */
+  rpcUrl?: string;
+  /** ethers Signer or private key backing the Node.js EIP-1193 bridge */
+  signer?: ethers.Signer | string;
+  /** Where user-decryption sessions are persisted. Defaults to memory */
+  sessionStorage?: DecryptionSessionStorage;
+  /** Validity of a signed decryption session. Defaults to 10 days */
+  sessionDurationDays?: number;
+  /**
+   * Where the FHE public key and CRS are cached between loads. Defaults to IndexedDB
+   * in the browser and no cache in Node.js (pass a FileKeyCacheStorage); false disables it
+   */
+  publicKeyCache?: PublicKeyCacheStorage | false;
+  /** Where the browser loads the relayer SDK's WASM from, integrity hashes and progress callback */
+  wasm?: WasmLoadingOptions;
+  /** Timeouts, retries and circuit breaker applied to relayer calls */
+  resilience?: ResilienceConfig;
+  /**
+   * Rebuild the instance when the browser provider switches chain or account.
+   * Operations in flight are rejected and the old account's session is revoked. Defaults to true
+   */
+  autoReinitialize?: boolean;
+  /**
+   * Run the relayer SDK in a Web Worker (browser only): true for the bundled worker script,
+   * or a factory for one your bundler emits. Falls back to the main thread when workers are unavailable
+   */
+  worker?: WorkerOption;
+}
+
+export interface HandleContractPair {
+  handle: string;
+  contractAddress: string;
+}
+
+/**
+ * Per-handle result of a batch user decryption
+ */
+export type UserDecryptOutcome =
+  | { ok: true; value: ClearValue }
+  | { ok: false; error: Error };
+
+export interface PublicDecryptOptions extends OperationOptions {
+  /** Accept a missing decryption proof ('0x'). Only for local mocks and tests */
+  unsafeMockProof?: boolean;
+}
+
+export interface PublicDecryptResult {
+  /** Clear values keyed by handle, in handle order */
+  clearValues: Record<string, ClearValue>;
+  /** abi.encode of the clear values, typed by each handle's FHE type */
+  abiEncodedClearValues: string;
+  decryptionProof: string;
+}
+
+/** Overall initialization percentage reached at each step */
+const PROGRESS = {
+  wasmDownloaded: 60,
+  wasmReady: 70,
+  fetchingPublicKey: 75,
+  ready: 100,
+};
+
+export class FhevmClient {
+  private instance: any = null;
+  private lifecycle: { phase: FhevmPhase; progress: number } = { phase: 'idle', progress: 0 };
+  private readonly config: FhevmClientConfig;
+  private network: FhevmNetworkConfig;
+  /** Rejecters of the operations currently running against the instance */
+  private readonly inFlight = new Set<(error: Error) => void>();
+  private account: string | null = null;
+  /** Chain the wallet was last seen on; some wallets re-emit chainChanged on reconnect */
+  private walletChainId: number | null = null;
+  private unwatchProvider: (() => void) | null = null;
+  /** Bumped by every initialization and by dispose(); older initializations drop their result */
+  private generation = 0;
+  /** Newest initialization, which superseded ones settle with; null after dispose() */
+  private latest: { generation: number; promise: Promise<any> } | null = null;
+  readonly sessions: DecryptionSessionManager;
+  /** Shared by encryption, user decryption and public decryption */
+  readonly relayer: RelayerGuard;
+  /** Lifecycle events: wasm-loading, wasm-ready, fetching-public-key, instance-ready, reinitializing, disposed */
+  readonly events = new FhevmEventEmitter();
+  private readonly keyCache: PublicKeyCache | null;
+
+  constructor(config: FhevmClientConfig = {}) {
+    this.config = { ...config };
+    this.network = resolveNetworkConfig(config.network ?? (config.mode === 'mock' ? 'hardhat-local' : undefined));
+    this.sessions = new DecryptionSessionManager(() => this.instance, () => this.network.chainId, {
+      storage: config.sessionStorage,
+      durationDays: config.sessionDurationDays,
+    });
+    this.relayer = new RelayerGuard(config.resilience);
+
+    const keyCacheStorage = config.publicKeyCache ?? (typeof indexedDB !== 'undefined' ? new IndexedDBKeyCacheStorage() : false);
+    this.keyCache = keyCacheStorage ? new PublicKeyCache(keyCacheStorage) : null;
+  }
+
+  getConfig(): FhevmClientConfig {
+    return { ...this.config };
+  }
+
+  /**
+   * Use another EIP-1193 provider, e.g. after the user picked a different wallet
+   * in a connector. The next initialize() builds the instance on it
+   */
+  setProvider(provider: any) {
+    if (provider === this.config.provider) return;
+    this.unwatchProvider?.();
+    this.unwatchProvider = null;
+    this.config.provider = provider;
+  }
+
+  getNetwork(): FhevmNetworkConfig {
+    return { ...this.network };
+  }
+
+  getInstance() {
+    return this.instance;
+  }
+
+  isInitialized(): boolean {
+    return this.instance !== null;
+  }
+
+  /**
+   * Current lifecycle phase and overall initialization percentage
+   */
+  getLifecycle() {
+    return { ...this.lifecycle };
+  }
+
+  private emit(event: FhevmLifecycleEvent) {
+    this.lifecycle = { phase: event.type, progress: event.progress };
+    this.events.emit(event);
+  }
+
+  /**
+   * Initialize the FHEVM instance - Environment-aware
+   */
+  async initialize() {
+    if (this.instance) {
+      this.rejectInFlight(new FhevmInstanceResetError('FHEVM instance is being reinitialized'));
+      this.dropInstance();
+      this.emit({ type: 'reinitializing', progress: 0 });
+    }
+    return this.start();
+  }
+
+  /**
+   * Start an initialization that supersedes any still running
+   */
+  private start(before?: Promise<unknown>): Promise<any> {
+    const generation = ++this.generation;
+    const promise = this.runInitialization(generation, before);
+    this.latest = { generation, promise };
+    return promise;
+  }
+
+  private async runInitialization(generation: number, before?: Promise<unknown>) {
+    let instance: any;
+    try {
+      await before;
+      this.ensureCurrent(generation);
+      if (this.config.mode === 'mock') {
+        instance = await this.initializeMock(generation);
+      } else if (typeof window !== 'undefined' && (this.config.provider || window.ethereum)) {
+        instance = await this.initializeBrowser(generation);
+      } else {
+        instance = await this.initializeNode(generation);
+      }
+    } catch (err) {
+      // A newer initialization or dispose() took over: settle like it, without reporting this one
+      if (generation !== this.generation) {
+        if (this.latest && this.latest.generation > generation) return this.latest.promise;
+        throw new FhevmInstanceResetError('FHEVM client was disposed during initialization');
+      }
+      this.emit({ type: 'error', progress: 0, error: toFhevmError(err) });
+      throw err;
+    }
+
+    this.instance = instance;
+    this.emit({ type: 'instance-ready', progress: PROGRESS.ready });
+    return instance;
+  }
+
+  /**
+   * Throw once the initialization was superseded, stopping the worker it started
+   */
+  private ensureCurrent(generation: number, created?: unknown) {
+    if (generation === this.generation) return;
+    if (created instanceof WorkerFhevmInstance) created.terminate();
+    throw new FhevmInstanceResetError('FHEVM initialization was superseded');
+  }
+
+  /**
+   * Drop the FHEVM instance; initialize() can be called again afterwards.
+   * An initialization still running is abandoned and rejects with FhevmInstanceResetError
+   */
+  dispose() {
+    this.generation++;
+    this.latest = null;
+    this.unwatchProvider?.();
+    this.unwatchProvider = null;
+    this.rejectInFlight(new FhevmInstanceResetError('FHEVM client was disposed'));
+    this.dropInstance();
+    this.emit({ type: 'disposed', progress: 0 });
+  }
+
+  /** Release the instance, stopping its worker if it has one */
+  private dropInstance() {
+    if (this.instance instanceof WorkerFhevmInstance) this.instance.terminate();
+    this.instance = null;
+  }
+
+  /**
+   * Run an operation against the current instance; it is rejected with
+   * FhevmInstanceResetError if the instance is rebuilt or disposed meanwhile,
+   * and with OperationCancelledError when the signal aborts
+   */
+  private track<T>(operation: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+    if (signal?.aborted) return Promise.reject(new OperationCancelledError());
+
+    return withAbortSignal(new Promise<T>((resolve, reject) => {
+      this.inFlight.add(reject);
+      operation()
+        .then(resolve, reject)
+        .finally(() => this.inFlight.delete(reject));
+    }), signal);
+  }
+
+  private rejectInFlight(error: Error) {
+    this.inFlight.forEach(reject => reject(error));
+    this.inFlight.clear();
+  }
+
+  /**
+   * Follow the provider's chainChanged / accountsChanged events
+   */
+  private watchProvider(provider: any) {
+    if (this.unwatchProvider || this.config.autoReinitialize === false || typeof provider?.on !== 'function') return;
+
+    // Events repeating the current chain or account change nothing: keep the instance and sessions
+    const onChainChanged = (chainIdHex: string) => {
+      const chainId = Number(chainIdHex);
+      if (chainId === this.walletChainId) return;
+      this.walletChainId = chainId;
+      this.handleProviderChange(chainId);
+    };
+    const onAccountsChanged = (accounts: string[]) => {
+      const account = accounts[0]?.toLowerCase() ?? null;
+      const previousAccount = this.account;
+      if (account === previousAccount) return;
+      this.account = account;
+      this.handleProviderChange(undefined, previousAccount);
+    };
+
+    provider.on('chainChanged', onChainChanged);
+    provider.on('accountsChanged', onAccountsChanged);
+    this.unwatchProvider = () => {
+      provider.removeListener?.('chainChanged', onChainChanged);
+      provider.removeListener?.('accountsChanged', onAccountsChanged);
+    };
+  }
+
+  /**
+   * Tear down everything tied to the old chain or account and rebuild the instance
+   */
+  private handleProviderChange(chainId?: number, previousAccount = this.account) {
+    console.log('🔄 Wallet chain or account changed, rebuilding FHEVM instance...');
+    this.rejectInFlight(new FhevmInstanceResetError());
+    this.dropInstance();
+    this.emit({ type: 'reinitializing', progress: 0 });
+
+    const previousChainId = this.network.chainId;
+
+    // A preset-configured client follows the wallet to another preset network
+    if (chainId !== undefined && chainId !== previousChainId
+      && (this.config.network === undefined || typeof this.config.network === 'string')) {
+      const preset = findNetworkPreset(chainId);
+      if (preset) this.network = resolveNetworkConfig(preset);
+    }
+
+    // Supersedes any initialization still running for the old chain or account
+    const revoked = previousAccount
+      ? this.sessions.revoke(previousAccount, previousChainId).catch(() => undefined)
+      : undefined;
+    this.start(revoked).catch(() => {
+      // Reported through the 'error' lifecycle event
+    });
+  }
+
+  /**
+   * WASM loading options whose progress callback also emits wasm-loading events
+   */
+  private wasmOptions(generation: number): WasmLoadingOptions {
+    const options = this.config.wasm ?? {};
+    const downloads: Partial<Record<WasmAsset, WasmProgressEvent>> = {};
+
+    return {
+      ...options,
+      onProgress: event => {
+        if (generation !== this.generation) return;
+        options.onProgress?.(event);
+        downloads[event.asset] = event;
+
+        // Weighted by size once every file reported it; before that each file counts equally
+        const all = Object.values(downloads);
+        const assets = Object.keys(WASM_FILES).length;
+        const fraction = all.length === assets && all.every(d => d.total)
+          ? all.reduce((sum, d) => sum + d.loaded, 0) / all.reduce((sum, d) => sum + d.total!, 0)
+          : all.reduce((sum, d) => sum + (d.total ? d.loaded / d.total : 0), 0) / assets;
+        const progress = Math.max(this.lifecycle.progress, Math.round(PROGRESS.wasmDownloaded * fraction));
+
+        this.emit({ type: 'wasm-loading', progress, asset: event.asset, loaded: event.loaded, total: event.total });
+      },
+    };
+  }
+
+  /**
+   * Load the relayer SDK WASM on the main thread
+   */
+  private async loadWasm(generation: number) {
+    this.emit({ type: 'wasm-loading', progress: 0 });
+    const sdk = await loadRelayerSdk(this.wasmOptions(generation));
+    this.ensureCurrent(generation);
+    this.emit({ type: 'wasm-ready', progress: PROGRESS.wasmReady });
+    return sdk;
+  }
+
+  /**
+   * Load the relayer SDK WASM in a Web Worker, or return null to run on the main thread
+   */
+  private async startWorker(provider: any, generation: number): Promise<WorkerFhevmInstance | null> {
+    const option = this.config.worker;
+    if (!option) return null;
+    if (!supportsWorkers()) {
+      console.warn('⚠️ Web Workers are unavailable, running FHEVM on the main thread');
+      return null;
+    }
+
+    this.emit({ type: 'wasm-loading', progress: 0 });
+    let instance: WorkerFhevmInstance;
+    try {
+      const worker = typeof option === 'function' ? option() : createFhevmWorker();
+      instance = await WorkerFhevmInstance.start(worker, provider, this.wasmOptions(generation));
+    } catch (err) {
+      this.ensureCurrent(generation);
+      console.warn('⚠️ FHEVM worker could not start, running on the main thread:', err);
+      return null;
+    }
+    this.ensureCurrent(generation, instance);
+    this.emit({ type: 'wasm-ready', progress: PROGRESS.wasmReady });
+    console.log('🧵 FHEVM running in a Web Worker');
+    return instance;
+  }
+
+  /**
+   * Initialize FHEVM instance for browser environment
+   */
+  private async initializeBrowser(generation: number) {
+    const provider = this.config.provider || window.ethereum;
+    if (!provider) {
+      throw new Error('Ethereum provider not found. Please install MetaMask or connect a wallet.');
+    }
+
+    await assertProviderChainId(provider, this.network);
+    this.ensureCurrent(generation);
+    this.walletChainId = this.network.chainId;
+    const config = toInstanceConfig(this.network, provider);
+    const account = (await provider.request({ method: 'eth_accounts' }).catch(() => []))[0]?.toLowerCase() ?? null;
+    this.ensureCurrent(generation);
+    this.account = account;
+    this.watchProvider(provider);
+
+    const worker = await this.startWorker(provider, generation);
+    const createInstance: (config: any) => Promise<any> = worker
+      ? config => worker.createInstance(config)
+      : (await this.loadWasm(generation)).createInstance;
+
+    try {
+      // createInstance downloads the network's FHE public key and CRS
+      this.emit({ type: 'fetching-public-key', progress: PROGRESS.fetchingPublicKey });
+      const instance = await createInstanceWithKeyCache(createInstance, config, this.keyCache, this.network.chainId);
+      this.ensureCurrent(generation);
+      return instance;
+    } catch (err) {
+      worker?.terminate();
+      if (generation === this.generation) console.error('FHEVM browser instance creation failed:', err);
+      throw err;
+    }
+  }
+
+  /**
+   * Initialize FHEVM instance for Node.js environment
+   * REAL FUNCTIONALITY - uses actual RelayerSDK
+   */
+  private async initializeNode(generation: number) {
+    try {
+      console.log('🚀 Initializing REAL FHEVM Node.js instance...');
+
+      // Use eval to prevent webpack from analyzing these imports
+      this.emit({ type: 'wasm-loading', progress: 0 });
+      const relayerSDKModule = await eval('import("@zama-fhe/relayer-sdk/node")');
+      const { createInstance } = relayerSDKModule;
+      this.ensureCurrent(generation);
+      this.emit({ type: 'wasm-ready', progress: PROGRESS.wasmReady });
+
+      const provider = this.config.provider || await this.createNodeProvider();
+      await assertProviderChainId(provider, this.network);
+      this.ensureCurrent(generation);
+      const config = toInstanceConfig(this.network, provider);
+
+      this.emit({ type: 'fetching-public-key', progress: PROGRESS.fetchingPublicKey });
+      const instance = await createInstanceWithKeyCache(createInstance, config, this.keyCache, this.network.chainId);
+      this.ensureCurrent(generation);
+      console.log('✅ REAL FHEVM Node.js instance created successfully!');
+      return instance;
+    } catch (err) {
+      if (generation === this.generation) console.error('FHEVM Node.js instance creation failed:', err);
+      throw err;
+    }
+  }
+
+  /**
+   * Initialize a mock FHEVM instance against a local Hardhat node (browser or Node.js)
+   */
+  private async initializeMock(generation: number) {
+    try {
+      console.log('🧪 Initializing mock FHEVM instance...');
+      const instance = await createMockInstance(this.network, this.config.rpcUrl);
+      this.ensureCurrent(generation);
+      console.log('✅ Mock FHEVM instance created successfully!');
+      return instance;
+    } catch (err) {
+      if (generation === this.generation) console.error('FHEVM mock instance creation failed:', err);
+      throw err;
+    }
+  }
+
+  /**
+   * Create a signer-backed EIP-1193 provider for Node.js
+   */
+  private async createNodeProvider() {
+    const rpcUrl = this.config.rpcUrl || this.network.rpcUrl;
+    if (!rpcUrl) {
+      throw new Error(`No rpcUrl configured for FHEVM network "${this.network.name}"`);
+    }
+    return createEip1193Bridge({ signer: this.config.signer, rpcUrl });
+  }
+
+  private requireInstance() {
+    if (!this.instance) throw new FhevmNotInitializedError();
+    return this.instance;
+  }
+
+  /**
+   * Get a reusable decryption session covering the contracts, signing a new one if needed
+   */
+  async getDecryptionSession(signer: any, contractAddresses: string[]): Promise<DecryptionSession> {
+    return this.track(() => this.sessions.getSession(signer, contractAddresses));
+  }
+
+  /**
+   * Revoke the stored decryption session of a user
+   */
+  async revokeDecryptionSession(userAddress: string) {
+    return this.sessions.revoke(userAddress);
+  }
+
+  /**
+   * Run one EIP-712 user decryption request under a session
+   */
+  private async userDecryptChunk(session: DecryptionSession, pairs: HandleContractPair[], signal?: AbortSignal) {
+    const fhe = this.requireInstance();
+
+    try {
+      return await this.relayer.run<any>('userDecrypt', attempt => bindSignal(fhe, attempt).userDecrypt(
+        pairs,
+        session.data.privateKey,
+        session.data.publicKey,
+        session.data.signature.replace("0x", ""),
+        session.contractAddresses,
+        session.userAddress,
+        session.data.startTimestamp.toString(),
+        session.data.durationDays.toString()
+      ), { signal });
+    } catch (error) {
+      // Relayer/network, ACL and proof failures become typed SDK errors
+      throw toFhevmError(error);
+    }
+  }
+
+  /**
+   * Decrypt a single handle using EIP-712 user decryption.
+   * The result type follows the handle's FHE type: bigint for euintN,
+   * boolean for ebool and a checksummed address for eaddress.
+   */
+  async userDecrypt<T extends FheType = FheType>(
+    handle: FheHandle<T>,
+    contractAddress: string,
+    signer: any,
+    options: OperationOptions = {}
+  ): Promise<ClearValueOf<T>> {
+    return this.track(async () => {
+      this.requireInstance();
+      if (!isValidHandle(handle)) throw new InvalidHandleError(handle);
+      console.log('🔐 Using EIP-712 user decryption for handle:', handle);
+
+      const session = await this.sessions.getSession(signer, [contractAddress]);
+      const result = await this.userDecryptChunk(session, [{ handle, contractAddress }], options.signal);
+      return toClearValue<T>(handle, result[handle]);
+    }, options.signal);
+  }
+
+  /**
+   * Decrypt a single encrypted value using EIP-712 user decryption (matches showcase API)
+   * @deprecated returns a number; use userDecrypt() for bigint/boolean/address results
+   */
+  async decryptValue(encryptedBytes: string, contractAddress: string, signer: any): Promise<number> {
+    const value = await this.userDecrypt(encryptedBytes, contractAddress, signer);
+    return toSafeNumber(encryptedBytes, value);
+  }
+
+  /**
+   * Batch decrypt multiple encrypted values using EIP-712 user decryption
+   * @deprecated returns numbers; use batchUserDecrypt() for typed results
+   */
+  async batchDecryptValues(
+    handles: string[],
+    contractAddress: string,
+    signer: any
+  ): Promise<Record<string, number>> {
+    console.log('🔐 Using EIP-712 batch user decryption for handles:', handles);
+
+    const outcomes = await this.batchUserDecrypt(
+      handles.map(handle => ({ handle, contractAddress })),
+      signer
+    );
+
+    // Convert result to numbers, refusing to lose precision
+    const decryptedValues: Record<string, number> = {};
+    for (const handle of handles) {
+      const outcome = outcomes[handle];
+      if (!outcome.ok) throw outcome.error;
+      decryptedValues[handle] = toSafeNumber(handle, outcome.value);
+    }
+
+    return decryptedValues;
+  }
+
+  /**
+   * Batch user decryption across many contracts.
+   *
+   * Contracts are grouped into as few EIP-712 sessions as the relayer allows,
+   * requests are chunked to the relayer's bit limit, and each handle gets its
+   * own outcome so one failing chunk does not fail the whole batch.
+   */
+  async batchUserDecrypt(
+    pairs: HandleContractPair[],
+    signer: any,
+    options: OperationOptions = {}
+  ): Promise<Record<string, UserDecryptOutcome>> {
+    return this.track(async () => {
+      this.requireInstance();
+      console.log(`🔐 Using EIP-712 multi-contract user decryption for ${pairs.length} handles`);
+
+      const outcomes: Record<string, UserDecryptOutcome> = {};
+      const byContract = new Map<string, HandleContractPair[]>();
+      const seen = new Set<string>();
+
+      for (const { handle, contractAddress } of pairs) {
+        if (seen.has(handle)) continue;
+        seen.add(handle);
+
+        if (!isValidHandle(handle)) {
+          outcomes[handle] = { ok: false, error: new InvalidHandleError(handle) };
+          continue;
+        }
+        if (!ethers.isAddress(contractAddress)) {
+          outcomes[handle] = { ok: false, error: new Error(`Invalid contract address: ${contractAddress}`) };
+          continue;
+        }
+
+        const address = ethers.getAddress(contractAddress);
+        byContract.set(address, [...(byContract.get(address) ?? []), { handle, contractAddress: address }]);
+      }
+
+      const contracts = [...byContract.keys()];
+      for (let i = 0; i < contracts.length; i += MAX_USER_DECRYPT_CONTRACT_ADDRESSES) {
+        const group = contracts.slice(i, i + MAX_USER_DECRYPT_CONTRACT_ADDRESSES);
+        const groupPairs = group.flatMap(address => byContract.get(address) ?? []);
+
+        let session: DecryptionSession;
+        try {
+          session = await this.sessions.getSession(signer, group);
+        } catch (error: any) {
+          groupPairs.forEach(({ handle }) => { outcomes[handle] = { ok: false, error }; });
+          continue;
+        }
+
+        for (const chunk of chunkHandlesByBits(groupPairs, pair => pair.handle)) {
+          try {
+            const result = await this.userDecryptChunk(session, chunk, options.signal);
+            for (const { handle } of chunk) {
+              try {
+                outcomes[handle] = { ok: true, value: toClearValue(handle, result[handle]) };
+              } catch (error: any) {
+                outcomes[handle] = { ok: false, error };
+              }
+            }
+          } catch (error: any) {
+            chunk.forEach(({ handle }) => { outcomes[handle] = { ok: false, error }; });
+          }
+        }
+      }
+
+      return outcomes;
+    }, options.signal);
+  }
+
+  /**
+   * Start a typed encrypted input for a contract call; chain add* calls, then encrypt()
+   */
+  createInputBuilder(contractAddress: string, userAddress: string): EncryptedInputBuilder {
+    return new EncryptedInputBuilder(this.requireInstance(), contractAddress, userAddress, {
+      run: (operation, fn, options) => this.track(() => this.relayer.run(operation, fn, options), options?.signal),
+    });
+  }
+
+  /**
+   * Encrypt values using FHEVM
+   *
+   * 📝 BIT SIZE SUPPORT:
+   * FHEVM supports different bit sizes for encrypted values. If your contract uses a different bit size
+   * than the default 32-bit, you can use the appropriate method:
+   * - add8(value)   - for 8-bit values (0-255)
+   * - add16(value) - for 16-bit values (0-65535)
+   * - add32(value) - for 32-bit values (0-4294967295) - DEFAULT
+   * - add64(value) - for 64-bit values (0-18446744073709551615)
+   * - add128(value) - for 128-bit values
+   * - add256(value) - for 256-bit values
+   *
+   * Example: If your contract expects 8-bit values, replace add32() with add8()
+   */
+  async encryptValue(
+    contractAddress: string,
+    address: string,
+    plainDigits: number[],
+    options: OperationOptions = {}
+  ) {
+    return this.track(async () => {
+      const relayer = this.requireInstance();
+
+      try {
+        const ciphertextBlob = await this.relayer.run('encrypt', attempt => {
+          const inputHandle = bindSignal(relayer, attempt).createEncryptedInput(contractAddress, address);
+          for (const d of plainDigits) {
+            inputHandle.add8(d);
+          }
+          return inputHandle.encrypt();
+        }, options);
+        return ciphertextBlob;
+      } catch (error) {
+        throw toFhevmError(error);
+      }
+    }, options.signal);
+  }
+
+  /**
+   * Create encrypted input for contract interaction (matches showcase API)
+   */
+  async createEncryptedInput(contractAddress: string, userAddress: string, value: number, options: OperationOptions = {}) {
+    return this.track(async () => {
+      const fhe = this.requireInstance();
+
+      console.log(`🔐 Creating encrypted input for contract ${contractAddress}, user ${userAddress}, value ${value}`);
+
+      let result: any;
+      try {
+        result = await this.relayer.run('encrypt', attempt => {
+          const inputHandle = bindSignal(fhe, attempt).createEncryptedInput(contractAddress, userAddress);
+          inputHandle.add32(value);
+          return inputHandle.encrypt();
+        }, options);
+      } catch (error) {
+        throw toFhevmError(error);
+      }
+
+      console.log('✅ Encrypted input created successfully');
+      console.log('🔍 Encrypted result structure:', result);
+
+      // The FHEVM SDK returns an object with handles and inputProof
+      // We need to extract the correct values for the contract
+      if (result && typeof result === 'object') {
+        // If result has handles array, use the first handle
+        if (result.handles && Array.isArray(result.handles) && result.handles.length > 0) {
+          return {
+            encryptedData: result.handles[0],
+            proof: result.inputProof
+          };
+        }
+        // If result has encryptedData and proof properties
+        else if (result.encryptedData && result.proof) {
+          return {
+            encryptedData: result.encryptedData,
+            proof: result.proof
+          };
+        }
+        // Fallback: use the result as-is
+        else {
+          return {
+            encryptedData: result,
+            proof: result
+          };
+        }
+      }
+
+      // If result is not an object, use it directly
+      return {
+        encryptedData: result,
+        proof: result
+      };
+    }, options.signal);
+  }
+
+  /**
+   * Public decryption returning clear values in handle order, their ABI
+   * encoding and the KMS decryption proof to submit on-chain.
+   *
+   * When the relayer answers without a proof the call fails, because '0x'
+   * never passes FHE.checkSignatures; set `unsafeMockProof` to accept it
+   * anyway (local mocks and tests only).
+   */
+  async publicDecryptV09(handles: string[], options: PublicDecryptOptions = {}): Promise<PublicDecryptResult> {
+    return this.track(async () => {
+      const fhe = this.requireInstance();
+
+      for (const handle of handles) {
+        if (!isValidHandle(handle)) {
+          throw new InvalidHandleError(handle);
+        }
+      }
+
+      if (typeof fhe.publicDecrypt !== 'function') {
+        throw new Error('FHEVM instance does not support public decryption');
+      }
+
+      try {
+        console.log('🔐 Starting v0.9 public decryption for handles:', handles);
+
+        const result = await this.relayer.run<any>('publicDecrypt', attempt => bindSignal(fhe, attempt).publicDecrypt(handles), options);
+        if (!result || typeof result !== 'object') {
+          throw new Error('Invalid publicDecrypt result structure');
+        }
+
+        // v0.9 relayers answer { clearValues, abiEncodedClearValues, decryptionProof },
+        // older ones a plain { [handle]: value } map
+        const rawValues = result.clearValues ?? result;
+        const clearValues: Record<string, ClearValue> = {};
+        for (const handle of handles) {
+          clearValues[handle] = toClearValue(handle, rawValues[handle]);
+        }
+
+        const abiEncodedClearValues = abiEncodeClearValues(handles, clearValues);
+        if (result.abiEncodedClearValues && result.abiEncodedClearValues.toLowerCase() !== abiEncodedClearValues.toLowerCase()) {
+          throw new ProofVerificationError('Relayer abiEncodedClearValues do not match the decrypted values');
+        }
+
+        const decryptionProof = result.decryptionProof && result.decryptionProof !== '0x' ? result.decryptionProof : '0x';
+        if (decryptionProof === '0x') {
+          if (!options.unsafeMockProof) {
+            throw new ProofVerificationError('Relayer returned no decryption proof; the result could not be verified on-chain');
+          }
+          console.warn('⚠️ Returning public decryption without a proof (unsafeMockProof)');
+        }
+
+        return {
+          clearValues,
+          abiEncodedClearValues,
+          decryptionProof
+        };
+      } catch (error) {
+        throw toFhevmError(error);
+      }
+    }, options.signal);
+  }
+}
@@ -4,15 +4,19 @@
  */
 
 import { ethers } from 'ethers';
-import { createEncryptedInput } from './fhevm.js';
+import { FhevmClient } from './client.js';
+import { getDefaultClient } from './fhevm.js';
+import { toFhevmError } from './errors.js';
 
 export class FhevmContract {
   private contract: ethers.Contract;
   private address: string;
+  private client?: FhevmClient;
 
-  constructor(contract: ethers.Contract, address: string) {
+  constructor(contract: ethers.Contract, address: string, client?: FhevmClient) {
     this.contract = contract;
     this.address = address;
+    this.client = client;
   }
 
   /**
@@ -23,7 +27,12 @@ export class FhevmContract {
     encryptedParams: any,
     ...additionalParams: any[]
   ): Promise<ethers.ContractTransactionResponse> {
-    return this.contract[functionName](encryptedParams.encryptedData, encryptedParams.proof, ...additionalParams);
+    try {
+      return await this.contract[functionName](encryptedParams.encryptedData, encryptedParams.proof, ...additionalParams);
+    } catch (error) {
+      // Decodes require() messages and custom errors into ContractRevertError
+      throw toFhevmError(error, this.contract.interface);
+    }
   }
 
   /**
@@ -35,7 +44,12 @@ export class FhevmContract {
     ...additionalParams: any[]
   ): Promise<ethers.TransactionReceipt> {
     const tx = await this.encryptAndCall(functionName, encryptedParams, ...additionalParams);
-    const receipt = await tx.wait();
+    let receipt: ethers.TransactionReceipt | null;
+    try {
+      receipt = await tx.wait();
+    } catch (error) {
+      throw toFhevmError(error, this.contract.interface);
+    }
     if (!receipt) {
       throw new Error("Transaction receipt is null");
     }
@@ -46,8 +60,16 @@ export class FhevmContract {
    * Create encrypted input for contract
    */
   async createEncryptedInput(userAddress: string, value: number) {
-    return createEncryptedInput(this.address, userAddress, value);
+    return (this.client ?? getDefaultClient()).createEncryptedInput(this.address, userAddress, value);
   }
 }
 
+/**
+ * What useContract needs from a contract factory. Typechain factories
+ * (e.g. UniversalFHEAdapter__factory) match it through their static connect()
+ */
+export interface ContractFactoryLike<T extends ethers.BaseContract = ethers.BaseContract> {
+  connect(address: string, runner?: ethers.ContractRunner | null): T;
+}
+
 
@@ -0,0 +1,58 @@
+/**
+ * Wallet Discovery - Universal SDK
+ * EIP-6963: every installed wallet announces itself, instead of one of them winning window.ethereum
+ */
+
+export interface Eip6963ProviderInfo {
+  uuid: string;
+  name: string;
+  /** Data URI of the wallet icon */
+  icon: string;
+  /** Reverse-DNS identifier, e.g. io.metamask; stable across page loads */
+  rdns: string;
+}
+
+export interface Eip6963ProviderDetail {
+  info: Eip6963ProviderInfo;
+  /** EIP-1193 provider of the wallet */
+  provider: any;
+}
+
+const CHOICE_KEY = 'fhevm-sdk:wallet';
+
+/**
+ * Listen for wallet announcements and ask the installed wallets to announce themselves.
+ * Returns a function that stops listening
+ */
+export function requestWallets(onAnnounce: (wallet: Eip6963ProviderDetail) => void): () => void {
+  if (typeof window === 'undefined') return () => undefined;
+
+  const handleAnnounce = (event: Event) => {
+    const wallet = (event as CustomEvent<Eip6963ProviderDetail>).detail;
+    if (wallet?.info?.rdns && wallet.provider) onAnnounce(wallet);
+  };
+
+  window.addEventListener('eip6963:announceProvider', handleAnnounce);
+  window.dispatchEvent(new Event('eip6963:requestProvider'));
+  return () => window.removeEventListener('eip6963:announceProvider', handleAnnounce);
+}
+
+/** rdns of the wallet the user picked last time, if any */
+export function loadWalletChoice(): string | null {
+  try {
+    return typeof localStorage === 'undefined' ? null : localStorage.getItem(CHOICE_KEY);
+  } catch {
+    // Storage can be blocked (privacy settings, sandboxed iframes)
+    return null;
+  }
+}
+
+export function saveWalletChoice(rdns: string | null) {
+  try {
+    if (typeof localStorage === 'undefined') return;
+    if (rdns) localStorage.setItem(CHOICE_KEY, rdns);
+    else localStorage.removeItem(CHOICE_KEY);
+  } catch {
+    // Not remembering the choice only costs a click on the next visit
+  }
+}
@@ -0,0 +1,158 @@
+/**
+ * Signer-backed EIP-1193 Bridge - Universal SDK
+ * Lets Node.js scripts use the relayer SDK headlessly with an ethers Signer or private key
+ */
+
+import { ethers } from 'ethers';
+
+export interface Eip1193BridgeOptions {
+  /** ethers Signer, or a hex private key. Without one the bridge is read-only */
+  signer?: ethers.Signer | string;
+  /** JSON-RPC provider used for reads and to connect the signer */
+  provider?: ethers.JsonRpcProvider;
+  /** JSON-RPC URL, used when no provider is given */
+  rpcUrl?: string;
+}
+
+export interface Eip1193Bridge {
+  request: (args: { method: string; params?: any[] }) => Promise<any>;
+  on: (event: string, callback: (...args: any[]) => void) => void;
+  removeListener: (event: string, callback: (...args: any[]) => void) => void;
+  signer: ethers.Signer | null;
+  provider: ethers.JsonRpcProvider;
+}
+
+/** Read-only methods forwarded to the JSON-RPC provider; anything else is rejected with code 4200 */
+const READ_METHODS = new Set([
+  'eth_call',
+  'eth_estimateGas',
+  'eth_feeHistory',
+  'eth_gasPrice',
+  'eth_getBalance',
+  'eth_getBlockByHash',
+  'eth_getBlockByNumber',
+  'eth_getLogs',
+  'eth_getStorageAt',
+  'eth_getTransactionByHash',
+  'eth_getTransactionCount',
+  'eth_getTransactionReceipt',
+  'eth_maxPriorityFeePerGas',
+  'net_listening',
+  'web3_clientVersion',
+]);
+
+/**
+ * Convert a JSON-RPC transaction object (hex quantities) into an ethers TransactionRequest
+ */
+function toTransactionRequest(rpcTx: any): ethers.TransactionRequest {
+  const quantity = (value: any) => (value === undefined || value === null ? undefined : BigInt(value));
+
+  return {
+    to: rpcTx.to ?? undefined,
+    from: rpcTx.from ?? undefined,
+    data: rpcTx.data ?? rpcTx.input ?? undefined,
+    value: quantity(rpcTx.value),
+    gasLimit: quantity(rpcTx.gas ?? rpcTx.gasLimit),
+    gasPrice: quantity(rpcTx.gasPrice),
+    maxFeePerGas: quantity(rpcTx.maxFeePerGas),
+    maxPriorityFeePerGas: quantity(rpcTx.maxPriorityFeePerGas),
+    nonce: rpcTx.nonce === undefined ? undefined : Number(rpcTx.nonce),
+    type: rpcTx.type === undefined ? undefined : Number(rpcTx.type),
+  };
+}
+
+/**
+ * Create an EIP-1193 provider backed by a real signer.
+ * Account, signing and transaction methods go through the signer;
+ * read methods are forwarded to the JSON-RPC provider, and every
+ * other method is rejected with code 4200.
+ */
+export function createEip1193Bridge(options: Eip1193BridgeOptions): Eip1193Bridge {
+  const provider = options.provider
+    ?? (options.rpcUrl ? new ethers.JsonRpcProvider(options.rpcUrl) : undefined);
+  if (!provider) {
+    throw new Error('createEip1193Bridge requires a provider or an rpcUrl');
+  }
+
+  const signer = !options.signer ? null
+    : typeof options.signer === 'string' ? new ethers.Wallet(options.signer, provider)
+    : options.signer.provider ? options.signer : options.signer.connect(provider);
+
+  const requireSigner = (method: string) => {
+    if (!signer) throw new Error(`${method} requires a signer; the EIP-1193 bridge is read-only`);
+    return signer;
+  };
+
+  // EIP-1193 "Unsupported Method": signing and wallet methods must never reach the JSON-RPC node
+  const unsupported = (method: string) =>
+    Object.assign(new Error(`${method} is not supported by the EIP-1193 bridge`), { code: 4200 });
+
+  const assertOwnAddress = async (address: string) => {
+    const own = await requireSigner('Signing').getAddress();
+    if (address && ethers.getAddress(address) !== own) {
+      throw new Error(`Cannot sign for ${address}: bridge signer is ${own}`);
+    }
+  };
+
+  const request = async ({ method, params = [] }: { method: string; params?: any[] }) => {
+    switch (method) {
+      case 'eth_chainId': {
+        const network = await provider.getNetwork();
+        return ethers.toQuantity(network.chainId);
+      }
+      case 'net_version': {
+        const network = await provider.getNetwork();
+        return network.chainId.toString();
+      }
+      case 'eth_accounts':
+      case 'eth_requestAccounts':
+        return signer ? [await signer.getAddress()] : [];
+      case 'eth_blockNumber':
+        return ethers.toQuantity(await provider.getBlockNumber());
+      case 'eth_getCode':
+        return await provider.getCode(params[0], params[1]);
+      case 'eth_sendTransaction': {
+        const tx = params[0] ?? {};
+        if (tx.from) await assertOwnAddress(tx.from);
+        const response = await requireSigner(method).sendTransaction(toTransactionRequest(tx));
+        return response.hash;
+      }
+      case 'eth_signTypedData_v4': {
+        const [address, typedData] = params;
+        await assertOwnAddress(address);
+        const { domain, types, message } = typeof typedData === 'string' ? JSON.parse(typedData) : typedData;
+        // ethers derives the domain type itself and rejects it in `types`
+        const { EIP712Domain: _domainType, ...messageTypes } = types;
+        return await requireSigner(method).signTypedData(domain, messageTypes, message);
+      }
+      case 'eth_signTransaction': {
+        const tx = params[0] ?? {};
+        if (tx.from) await assertOwnAddress(tx.from);
+        const txSigner = requireSigner(method);
+        return await txSigner.signTransaction(await txSigner.populateTransaction(toTransactionRequest(tx)));
+      }
+      case 'eth_sign': {
+        // Same order as geth: address first, then the data to sign
+        const [address, data] = params;
+        await assertOwnAddress(address);
+        return await requireSigner(method).signMessage(ethers.getBytes(data));
+      }
+      case 'personal_sign': {
+        const [message, address] = params;
+        await assertOwnAddress(address);
+        return await requireSigner(method).signMessage(ethers.isHexString(message) ? ethers.getBytes(message) : message);
+      }
+      default:
+        if (!READ_METHODS.has(method)) throw unsupported(method);
+        return await provider.send(method, params);
+    }
+  };
+
+  return {
+    request,
+    on: () => {},
+    removeListener: () => {},
+    signer,
+    provider,
+  };
+}
@@ -0,0 +1,186 @@
+/**
+ * Encrypted Input Builder - Universal SDK
+ * Fluent, range-checked builder producing one input proof for several typed values
+ */
+
+import { ethers } from 'ethers';
+import { FheType, FheHandle } from './handles.js';
+import { OperationCancelledError, toFhevmError } from './errors.js';
+import { OperationOptions, RelayerRunner, withAbortSignal } from './resilience.js';
+import { bindSignal } from './worker.js';
+
+export type EncryptedInputType = FheType;
+
+/** Maximum encrypted bits in a single input proof */
+export const MAX_INPUT_BITS = 2048;
+
+/** Encrypted bit width each input type counts for in the proof */
+const INPUT_TYPE_BITS: Record<EncryptedInputType, number> = {
+  ebool: 2,
+  euint8: 8,
+  euint16: 16,
+  euint32: 32,
+  euint64: 64,
+  euint128: 128,
+  euint256: 256,
+  eaddress: 160,
+};
+
+export interface EncryptedHandle {
+  type: EncryptedInputType;
+  /** bytes32 handle to pass as the external encrypted argument */
+  handle: FheHandle;
+}
+
+export interface EncryptedInputResult {
+  /** Handles in the order the values were added */
+  handles: EncryptedHandle[];
+  /** Single proof covering every handle */
+  inputProof: string;
+}
+
+type InputEntry =
+  | { type: 'ebool'; value: boolean }
+  | { type: 'eaddress'; value: string }
+  | { type: Exclude<EncryptedInputType, 'ebool' | 'eaddress'>; value: bigint };
+
+const ADD_METHODS: Record<EncryptedInputType, string> = {
+  ebool: 'addBool',
+  euint8: 'add8',
+  euint16: 'add16',
+  euint32: 'add32',
+  euint64: 'add64',
+  euint128: 'add128',
+  euint256: 'add256',
+  eaddress: 'addAddress',
+};
+
+/**
+ * Convert and range-check an unsigned integer against a bit width
+ */
+function toUint(value: bigint | number, bits: number): bigint {
+  if (typeof value === 'number' && !Number.isSafeInteger(value)) {
+    throw new RangeError(`Value ${value} is not a safe integer; pass a bigint for large values`);
+  }
+  const big = BigInt(value);
+  const max = (1n << BigInt(bits)) - 1n;
+  if (big < 0n || big > max) {
+    throw new RangeError(`Value ${big} is out of range for euint${bits} (0 - ${max})`);
+  }
+  return big;
+}
+
+export class EncryptedInputBuilder {
+  private readonly entries: InputEntry[] = [];
+
+  constructor(
+    private readonly instance: any,
+    readonly contractAddress: string,
+    readonly userAddress: string,
+    private readonly guard?: RelayerRunner
+  ) {
+    if (!ethers.isAddress(contractAddress)) {
+      throw new Error(`Invalid contract address: ${contractAddress}`);
+    }
+    if (!ethers.isAddress(userAddress)) {
+      throw new Error(`Invalid user address: ${userAddress}`);
+    }
+  }
+
+  /** Types of the values added so far, in order */
+  get types(): EncryptedInputType[] {
+    return this.entries.map(entry => entry.type);
+  }
+
+  /** Total encrypted bits added so far */
+  get totalBits(): number {
+    return this.entries.reduce((total, entry) => total + INPUT_TYPE_BITS[entry.type], 0);
+  }
+
+  private push(entry: InputEntry) {
+    if (this.totalBits + INPUT_TYPE_BITS[entry.type] > MAX_INPUT_BITS) {
+      throw new RangeError(`Encrypted input exceeds ${MAX_INPUT_BITS} bits`);
+    }
+    this.entries.push(entry);
+    return this;
+  }
+
+  addBool(value: boolean) {
+    if (typeof value !== 'boolean') {
+      throw new TypeError(`addBool expects a boolean, got ${typeof value}`);
+    }
+    return this.push({ type: 'ebool', value });
+  }
+
+  add8(value: bigint | number) {
+    return this.push({ type: 'euint8', value: toUint(value, 8) });
+  }
+
+  add16(value: bigint | number) {
+    return this.push({ type: 'euint16', value: toUint(value, 16) });
+  }
+
+  add32(value: bigint | number) {
+    return this.push({ type: 'euint32', value: toUint(value, 32) });
+  }
+
+  add64(value: bigint | number) {
+    return this.push({ type: 'euint64', value: toUint(value, 64) });
+  }
+
+  add128(value: bigint | number) {
+    return this.push({ type: 'euint128', value: toUint(value, 128) });
+  }
+
+  add256(value: bigint | number) {
+    return this.push({ type: 'euint256', value: toUint(value, 256) });
+  }
+
+  addAddress(value: string) {
+    if (!ethers.isAddress(value)) {
+      throw new Error(`Invalid address: ${value}`);
+    }
+    return this.push({ type: 'eaddress', value: ethers.getAddress(value) });
+  }
+
+  /**
+   * Encrypt every added value into one input proof
+   */
+  async encrypt(options: OperationOptions = {}): Promise<EncryptedInputResult> {
+    if (this.entries.length === 0) {
+      throw new Error('Nothing to encrypt: add at least one value to the input');
+    }
+
+    if (options.signal?.aborted) {
+      throw new OperationCancelledError();
+    }
+
+    // Rebuilt on every attempt so a retried proof request starts from a fresh input
+    const encryptOnce = (attempt?: AbortSignal) => {
+      const instance = bindSignal(this.instance, attempt ?? options.signal);
+      const input = instance.createEncryptedInput(this.contractAddress, this.userAddress);
+      for (const entry of this.entries) {
+        input[ADD_METHODS[entry.type]](entry.value);
+      }
+      return input.encrypt();
+    };
+
+    let result: any;
+    try {
+      result = await withAbortSignal(this.guard ? this.guard.run('encrypt', encryptOnce, options) : encryptOnce(), options.signal);
+    } catch (error) {
+      throw toFhevmError(error);
+    }
+    if (!result?.handles || result.handles.length !== this.entries.length) {
+      throw new Error('Invalid encrypt result: handle count does not match the added values');
+    }
+
+    return {
+      handles: this.entries.map((entry, i) => ({
+        type: entry.type,
+        handle: ethers.hexlify(result.handles[i]),
+      })),
+      inputProof: ethers.hexlify(result.inputProof),
+    };
+  }
+}
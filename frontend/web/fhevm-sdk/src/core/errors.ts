@@ -0,0 +1,177 @@
+/**
+ * FHEVM Error Taxonomy - Universal SDK
+ * Typed errors so apps can branch on `instanceof` or `code` instead of message text
+ */
+
+import { ethers } from 'ethers';
+
+export type FhevmErrorCode =
+  | 'NOT_INITIALIZED'
+  | 'INSTANCE_RESET'
+  | 'CANCELLED'
+  | 'RELAYER_UNAVAILABLE'
+  | 'USER_REJECTED'
+  | 'ACL_DENIED'
+  | 'INVALID_HANDLE'
+  | 'PROOF_VERIFICATION_FAILED'
+  | 'CONTRACT_REVERT';
+
+export class FhevmError extends Error {
+  readonly code: FhevmErrorCode;
+  /** Underlying error, when this one wraps another */
+  readonly cause?: unknown;
+
+  constructor(code: FhevmErrorCode, message: string, cause?: unknown) {
+    super(message);
+    this.name = new.target.name;
+    this.code = code;
+    this.cause = cause;
+  }
+}
+
+export class FhevmNotInitializedError extends FhevmError {
+  constructor(message = 'FHE instance not initialized. Call initialize() or initializeFheInstance() first.') {
+    super('NOT_INITIALIZED', message);
+  }
+}
+
+export class FhevmInstanceResetError extends FhevmError {
+  constructor(message = 'FHEVM instance was reset because the wallet changed chain or account') {
+    super('INSTANCE_RESET', message);
+  }
+}
+
+export class OperationCancelledError extends FhevmError {
+  constructor(message = 'Operation was cancelled', cause?: unknown) {
+    super('CANCELLED', message, cause);
+  }
+}
+
+export class RelayerUnavailableError extends FhevmError {
+  /** HTTP status returned by the relayer, if any */
+  readonly status?: number;
+
+  constructor(message = 'Decryption service is temporarily unavailable. Please try again later.', cause?: unknown, status?: number) {
+    super('RELAYER_UNAVAILABLE', message, cause);
+    this.status = status;
+  }
+}
+
+export class UserRejectedError extends FhevmError {
+  constructor(message = 'Request rejected by user', cause?: unknown) {
+    super('USER_REJECTED', message, cause);
+  }
+}
+
+export class AclDeniedError extends FhevmError {
+  constructor(message: string, cause?: unknown) {
+    super('ACL_DENIED', message, cause);
+  }
+}
+
+export class InvalidHandleError extends FhevmError {
+  readonly handle: unknown;
+
+  constructor(handle: unknown, message = `Invalid ciphertext handle: ${String(handle)}`) {
+    super('INVALID_HANDLE', message);
+    this.handle = handle;
+  }
+}
+
+export class ProofVerificationError extends FhevmError {
+  constructor(message: string, cause?: unknown) {
+    super('PROOF_VERIFICATION_FAILED', message, cause);
+  }
+}
+
+export class ContractRevertError extends FhevmError {
+  /** Decoded revert reason: require() message or custom error name */
+  readonly reason?: string;
+  /** Raw revert data */
+  readonly data?: string;
+
+  constructor(reason: string | undefined, data?: string, cause?: unknown) {
+    super('CONTRACT_REVERT', reason ? `Contract reverted: ${reason}` : 'Contract reverted', cause);
+    this.reason = reason;
+    this.data = data;
+  }
+}
+
+const messageOf = (error: any): string =>
+  [error?.shortMessage, error?.message, error?.info?.error?.message, error?.error?.message]
+    .filter(Boolean)
+    .join(' | ');
+
+/**
+ * Decode the revert reason of a failed call or transaction.
+ * Pass the contract interface to decode custom errors.
+ */
+export function decodeRevertReason(error: any, contractInterface?: ethers.Interface): string | undefined {
+  if (error?.reason) return error.reason;
+  if (error?.revert?.name) {
+    return error.revert.args?.length ? `${error.revert.name}(${error.revert.args.join(', ')})` : error.revert.name;
+  }
+
+  const data: string | undefined = error?.data ?? error?.info?.error?.data ?? error?.error?.data;
+  if (!data || !ethers.isHexString(data) || data === '0x') return undefined;
+
+  if (contractInterface) {
+    try {
+      const parsed = contractInterface.parseError(data);
+      if (parsed) return parsed.args.length ? `${parsed.name}(${parsed.args.join(', ')})` : parsed.name;
+    } catch {
+      // Not one of the contract's custom errors
+    }
+  }
+
+  // Error(string)
+  if (data.startsWith('0x08c379a0')) {
+    try {
+      return ethers.AbiCoder.defaultAbiCoder().decode(['string'], ethers.dataSlice(data, 4))[0];
+    } catch {
+      return undefined;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Classify any error thrown by the relayer SDK, the wallet or a contract
+ * into the SDK's error taxonomy. Unknown errors are returned unchanged.
+ */
+export function toFhevmError(error: unknown, contractInterface?: ethers.Interface): Error {
+  if (error instanceof FhevmError) return error;
+
+  const err = error as any;
+  const message = messageOf(err);
+  const status: number | undefined = err?.cause?.status;
+
+  if (err?.name === 'AbortError') {
+    return new OperationCancelledError(undefined, error);
+  }
+
+  if (err?.code === 'ACTION_REJECTED' || err?.code === 4001 || err?.info?.error?.code === 4001
+    || /user rejected|user denied|rejected the request/i.test(message)) {
+    return new UserRejectedError(undefined, error);
+  }
+
+  if (/failed to fetch|networkerror|fetch failed|econnrefused|etimedout|econnreset|rate limit/i.test(message)
+    || (status !== undefined && (status >= 500 || status === 429))) {
+    return new RelayerUnavailableError(undefined, error, status);
+  }
+
+  if (/not authorized to user decrypt|not allowed for public decryption|acl/i.test(message)
+    && /not authorized|not allowed|denied/i.test(message)) {
+    return new AclDeniedError(err?.message ?? message, error);
+  }
+
+  if (/signers threshold is not reached|not in the list of .*signers|duplicate .*signer|invalidkmssignatures|decryption proof/i.test(message)) {
+    return new ProofVerificationError(err?.message ?? message, error);
+  }
+
+  if (err?.code === 'CALL_EXCEPTION' || /execution reverted|reverted/i.test(message)) {
+    return new ContractRevertError(decodeRevertReason(err, contractInterface), err?.data, error);
+  }
+
+  return error instanceof Error ? error : new Error(String(error));
+}
@@ -0,0 +1,60 @@
+/**
+ * Lifecycle Events - Universal SDK
+ * Typed events an FhevmClient emits while it loads, initializes and shuts down
+ */
+
+import { WasmAsset } from './wasm.js';
+
+/** Payload per lifecycle event; progress is the overall initialization percentage (0-100) */
+export interface FhevmLifecycleEventMap {
+  'wasm-loading': { progress: number; asset?: WasmAsset; loaded?: number; total?: number };
+  'wasm-ready': { progress: number };
+  'fetching-public-key': { progress: number };
+  'instance-ready': { progress: number };
+  'reinitializing': { progress: number };
+  'disposed': { progress: number };
+  'error': { progress: number; error: Error };
+}
+
+export type FhevmLifecycleEventType = keyof FhevmLifecycleEventMap;
+
+export type FhevmLifecycleEvent = {
+  [K in FhevmLifecycleEventType]: { type: K } & FhevmLifecycleEventMap[K];
+}[FhevmLifecycleEventType];
+
+/** Current phase of a client: the last lifecycle event, or 'idle' before the first one */
+export type FhevmPhase = 'idle' | FhevmLifecycleEventType;
+
+export type FhevmLifecycleListener<K extends FhevmLifecycleEventType | '*' = '*'> =
+  (event: K extends FhevmLifecycleEventType ? Extract<FhevmLifecycleEvent, { type: K }> : FhevmLifecycleEvent) => void;
+
+export class FhevmEventEmitter {
+  private readonly listeners = new Map<string, Set<(event: FhevmLifecycleEvent) => void>>();
+
+  /**
+   * Listen to one event type, or '*' for all of them. Returns an unsubscribe function
+   */
+  on<K extends FhevmLifecycleEventType | '*'>(type: K, listener: FhevmLifecycleListener<K>): () => void {
+    const set = this.listeners.get(type) ?? new Set();
+    set.add(listener as (event: FhevmLifecycleEvent) => void);
+    this.listeners.set(type, set);
+    return () => this.off(type, listener);
+  }
+
+  off<K extends FhevmLifecycleEventType | '*'>(type: K, listener: FhevmLifecycleListener<K>) {
+    this.listeners.get(type)?.delete(listener as (event: FhevmLifecycleEvent) => void);
+  }
+
+  emit(event: FhevmLifecycleEvent) {
+    for (const type of [event.type, '*']) {
+      for (const listener of this.listeners.get(type) ?? []) {
+        try {
+          listener(event);
+        } catch (err) {
+          // A failing listener must not break initialization
+          console.error(`FHEVM ${event.type} listener failed:`, err);
+        }
+      }
+    }
+  }
+}
@@ -0,0 +1,94 @@
+/**
+ * FHEVM Worker - Universal SDK
+ * Web Worker entry that runs the relayer SDK off the main thread.
+ * Driven by WorkerFhevmInstance; see worker-protocol.ts for the messages
+ */
+
+import { loadRelayerSdk } from './wasm.js';
+import { WorkerRequest, WorkerResponse, serializeError, deserializeError } from './worker-protocol.js';
+
+// The package compiles against the DOM lib only, so the worker global is used untyped
+const scope = self as any;
+
+// The relayer SDK's browser build assigns window.TFHE / window.TKMS when imported
+scope.window ??= scope;
+
+let sdk: any = null;
+let instance: any = null;
+let nextRpcId = 1;
+const rpcCalls = new Map<number, { resolve: (value: unknown) => void; reject: (error: Error) => void }>();
+/** Requests being handled, and those among them the main thread gave up on */
+const running = new Set<number>();
+const cancelled = new Set<number>();
+
+const post = (message: WorkerResponse) => scope.postMessage(message);
+
+/** EIP-1193 provider whose requests are answered by the main thread */
+const provider = {
+  request: ({ method, params }: { method: string; params?: unknown[] }) =>
+    new Promise((resolve, reject) => {
+      const id = nextRpcId++;
+      rpcCalls.set(id, { resolve, reject });
+      post({ type: 'rpc', id, method, params });
+    }),
+};
+
+function requireInstance() {
+  if (!instance) throw new Error('FHEVM worker has no instance yet; call createInstance() first');
+  return instance;
+}
+
+async function handle(message: Exclude<WorkerRequest, { type: 'cancel' | 'rpc-result' }>) {
+  switch (message.type) {
+    case 'load-wasm':
+      sdk ??= await loadRelayerSdk({
+        ...message.wasm,
+        onProgress: event => post({ type: 'wasm-progress', event }),
+      });
+      return null;
+    case 'create-instance':
+      if (!sdk) throw new Error('FHEVM worker has not loaded the relayer SDK yet');
+      instance = await sdk.createInstance({ ...message.config, network: provider });
+      return null;
+    case 'encrypt': {
+      const input = requireInstance().createEncryptedInput(message.contractAddress, message.userAddress);
+      for (const [method, value] of message.values) {
+        input[method](value);
+      }
+      return input.encrypt();
+    }
+    case 'call':
+      return requireInstance()[message.method](...message.args);
+  }
+}
+
+scope.addEventListener('message', async (event: MessageEvent<WorkerRequest>) => {
+  const message = event.data;
+
+  if (message.type === 'cancel') {
+    // A cancel can cross a response already posted; only remember it for running requests
+    if (running.has(message.id)) cancelled.add(message.id);
+    return;
+  }
+  if (message.type === 'rpc-result') {
+    const call = rpcCalls.get(message.id);
+    rpcCalls.delete(message.id);
+    if (message.error) call?.reject(deserializeError(message.error));
+    else call?.resolve(message.result);
+    return;
+  }
+
+  let response: WorkerResponse;
+  running.add(message.id);
+  try {
+    response = { type: 'result', id: message.id, result: await handle(message) };
+  } catch (err) {
+    response = { type: 'error', id: message.id, error: serializeError(err) };
+  } finally {
+    running.delete(message.id);
+  }
+
+  // Cancelled requests were already rejected on the main thread
+  if (cancelled.delete(message.id)) return;
+  post(response);
+});
@@ -0,0 +1,174 @@
+/**
+ * FHEVM Handle Utilities - Universal SDK
+ * A handle is a bytes32 whose second-to-last byte encodes the FHE type
+ */
+
+import { ethers } from 'ethers';
+import { InvalidHandleError } from './errors.js';
+
+export type FheType =
+  | 'ebool'
+  | 'euint8'
+  | 'euint16'
+  | 'euint32'
+  | 'euint64'
+  | 'euint128'
+  | 'euint256'
+  | 'eaddress';
+
+/** FHE type per type discriminant encoded in a handle */
+export const FHE_TYPE_IDS: Readonly<Record<number, FheType>> = {
+  0: 'ebool',
+  2: 'euint8',
+  3: 'euint16',
+  4: 'euint32',
+  5: 'euint64',
+  6: 'euint128',
+  7: 'eaddress',
+  8: 'euint256',
+};
+
+/** Clear value type produced by decrypting a handle of FHE type T */
+export type ClearValueOf<T extends FheType> =
+  T extends 'ebool' ? boolean :
+  T extends 'eaddress' ? string :
+  bigint;
+
+export type ClearValue = ClearValueOf<FheType>;
+
+/**
+ * A handle string optionally tagged with its FHE type, so decryption
+ * APIs can infer the clear value type: FheHandle<'euint64'> -> bigint
+ */
+export type FheHandle<T extends FheType = FheType> = string & { readonly __fheType?: T };
+
+/** Encrypted bit width per FHE type discriminant */
+export const FHE_TYPE_BITS: Readonly<Record<number, number>> = {
+  0: 2, // ebool
+  2: 8, // euint8
+  3: 16, // euint16
+  4: 32, // euint32
+  5: 64, // euint64
+  6: 128, // euint128
+  7: 160, // eaddress
+  8: 256, // euint256
+};
+
+/** Maximum encrypted bits the relayer decrypts in a single request */
+export const MAX_DECRYPT_BITS_PER_REQUEST = 2048;
+
+/** Maximum contract addresses in a single user-decryption EIP-712 request */
+export const MAX_USER_DECRYPT_CONTRACT_ADDRESSES = 10;
+
+export function isValidHandle(handle: unknown): handle is string {
+  return typeof handle === 'string' && /^0x[0-9a-fA-F]{64}$/.test(handle);
+}
+
+/**
+ * Read the FHE type discriminant encoded in a handle
+ */
+export function getHandleTypeId(handle: string): number {
+  if (!isValidHandle(handle)) {
+    throw new InvalidHandleError(handle);
+  }
+  const typeId = parseInt(handle.slice(-4, -2), 16);
+  if (!(typeId in FHE_TYPE_BITS)) {
+    throw new InvalidHandleError(handle, `Handle ${handle} has unsupported FHE type ${typeId}`);
+  }
+  return typeId;
+}
+
+/**
+ * Number of encrypted bits a handle counts for in relayer limits
+ */
+export function getHandleBits(handle: string): number {
+  return FHE_TYPE_BITS[getHandleTypeId(handle)];
+}
+
+/**
+ * Split handles into consecutive chunks that each stay within the relayer's bit limit
+ */
+export function chunkHandlesByBits<T>(
+  items: T[],
+  getHandle: (item: T) => string,
+  maxBits = MAX_DECRYPT_BITS_PER_REQUEST
+): T[][] {
+  const chunks: T[][] = [];
+  let current: T[] = [];
+  let currentBits = 0;
+
+  for (const item of items) {
+    const bits = getHandleBits(getHandle(item));
+    if (current.length > 0 && currentBits + bits > maxBits) {
+      chunks.push(current);
+      current = [];
+      currentBits = 0;
+    }
+    current.push(item);
+    currentBits += bits;
+  }
+  if (current.length > 0) chunks.push(current);
+
+  return chunks;
+}
+
+/**
+ * FHE type encoded in a handle
+ */
+export function getHandleFheType(handle: string): FheType {
+  return FHE_TYPE_IDS[getHandleTypeId(handle)];
+}
+
+/**
+ * Convert a raw relayer value into the clear value type of the handle:
+ * bigint for euintN, boolean for ebool, checksummed address for eaddress
+ */
+export function toClearValue<T extends FheType = FheType>(handle: FheHandle<T>, raw: unknown): ClearValueOf<T> {
+  const type = getHandleFheType(handle);
+
+  if (raw === undefined || raw === null) {
+    throw new Error(`Missing clear value for handle ${handle}`);
+  }
+
+  switch (type) {
+    case 'ebool':
+      return (typeof raw === 'boolean' ? raw : BigInt(raw as any) !== 0n) as ClearValueOf<T>;
+    case 'eaddress':
+      return ethers.getAddress(ethers.toBeHex(BigInt(raw as any), 20)) as ClearValueOf<T>;
+    default:
+      return BigInt(raw as any) as ClearValueOf<T>;
+  }
+}
+
+/**
+ * Solidity type a handle's clear value is ABI-encoded as
+ */
+export function getHandleSolidityType(handle: string): string {
+  const type = getHandleFheType(handle);
+  if (type === 'ebool') return 'bool';
+  if (type === 'eaddress') return 'address';
+  return `uint${type.slice('euint'.length)}`;
+}
+
+/**
+ * ABI-encode clear values in handle order, as FHE.checkSignatures expects
+ */
+export function abiEncodeClearValues(handles: string[], clearValues: Record<string, ClearValue>): string {
+  const types = handles.map(getHandleSolidityType);
+  const values = handles.map(handle => toClearValue(handle, clearValues[handle]));
+  return ethers.AbiCoder.defaultAbiCoder().encode(types, values);
+}
+
+/**
+ * Legacy number conversion that refuses to silently lose precision
+ */
+export function toSafeNumber(handle: string, value: ClearValue): number {
+  if (typeof value === 'boolean') return Number(value);
+  if (typeof value === 'string') {
+    throw new TypeError(`Handle ${handle} decrypts to an address; use a typed decryption API instead`);
+  }
+  if (value > BigInt(Number.MAX_SAFE_INTEGER)) {
+    throw new RangeError(`Value of handle ${handle} exceeds Number.MAX_SAFE_INTEGER; use a typed decryption API to get a bigint`);
+  }
+  return Number(value);
+}
@@ -3,8 +3,23 @@
  * Simple, clean implementation that matches showcase APIs
  */
 
-// Core FHEVM functionality - All functions consolidated in fhevm.ts
+// Core FHEVM functionality - FhevmClient plus default-client wrappers in fhevm.ts
+export * from './errors.js';
+export * from './resilience.js';
+export * from './networks.js';
+export * from './eip1193.js';
+export * from './discovery.js';
+export * from './mock.js';
+export * from './wasm.js';
+export * from './worker.js';
+export * from './events.js';
+export * from './handles.js';
+export * from './session.js';
+export * from './keycache.js';
+export * from './encryption.js';
+export * from './client.js';
 export * from './fhevm.js';
+export * from './store.js';
 export * from './contracts.js';
 
 
@@ -0,0 +1,286 @@
+/**
+ * Public Key Cache - Universal SDK
+ * Persists the network FHE public key and CRS so warm starts skip
+ * their multi-megabyte download from the relayer
+ */
+
+/**
+ * Key material of one chain, as the relayer SDK serializes it
+ */
+export interface PublicKeyCacheEntry {
+  chainId: number;
+  publicKeyId: string;
+  publicKey: Uint8Array;
+  /** CRS for 2048-bit encrypted inputs */
+  publicParamsId: string;
+  publicParams: Uint8Array;
+  /** SHA-256 hex digests, checked every time the entry is loaded */
+  publicKeyHash: string;
+  publicParamsHash: string;
+  storedAt: number;
+}
+
+/**
+ * Pluggable persistence for the public key cache, keyed by chain id
+ */
+export interface PublicKeyCacheStorage {
+  get(key: string): Promise<PublicKeyCacheEntry | null>;
+  set(key: string, entry: PublicKeyCacheEntry): Promise<void>;
+  remove(key: string): Promise<void>;
+}
+
+/** Key and CRS ids the relayer currently serves */
+export interface RelayerKeyIds {
+  publicKeyId: string;
+  publicParamsId: string;
+}
+
+/**
+ * In-memory storage - reuses keys across re-initializations of the same page or process
+ */
+export class MemoryKeyCacheStorage implements PublicKeyCacheStorage {
+  private entries = new Map<string, PublicKeyCacheEntry>();
+
+  async get(key: string) {
+    return this.entries.get(key) ?? null;
+  }
+
+  async set(key: string, entry: PublicKeyCacheEntry) {
+    this.entries.set(key, entry);
+  }
+
+  async remove(key: string) {
+    this.entries.delete(key);
+  }
+}
+
+/**
+ * Browser IndexedDB - stores the binary key material as-is across page loads
+ */
+export class IndexedDBKeyCacheStorage implements PublicKeyCacheStorage {
+  private db: Promise<any> | null = null;
+
+  constructor(
+    private readonly dbName = 'fhevm-sdk-keys',
+    private readonly storeName = 'public-keys'
+  ) {}
+
+  private open() {
+    if (!this.db) {
+      const storeName = this.storeName;
+      this.db = import('idb').then(({ openDB }) =>
+        openDB(this.dbName, 1, {
+          upgrade(db) {
+            if (!db.objectStoreNames.contains(storeName)) {
+              db.createObjectStore(storeName);
+            }
+          },
+        })
+      );
+    }
+    return this.db;
+  }
+
+  async get(key: string) {
+    const db = await this.open();
+    return ((await db.get(this.storeName, key)) as PublicKeyCacheEntry | undefined) ?? null;
+  }
+
+  async set(key: string, entry: PublicKeyCacheEntry) {
+    const db = await this.open();
+    await db.put(this.storeName, entry, key);
+  }
+
+  async remove(key: string) {
+    const db = await this.open();
+    await db.delete(this.storeName, key);
+  }
+}
+
+/**
+ * Node.js directory - one JSON manifest plus two binary files per chain
+ */
+export class FileKeyCacheStorage implements PublicKeyCacheStorage {
+  constructor(private readonly directory: string) {}
+
+  private paths(key: string) {
+    const base = `${this.directory}/${key.replace(/[^\w.-]/g, '_')}`;
+    return { manifest: `${base}.json`, publicKey: `${base}.pk.bin`, publicParams: `${base}.crs.bin` };
+  }
+
+  async get(key: string) {
+    // Use eval to prevent webpack from analyzing these imports
+    const fs = await eval('import("fs/promises")');
+    const paths = this.paths(key);
+    try {
+      const manifest = JSON.parse(await fs.readFile(paths.manifest, 'utf8'));
+      return {
+        ...manifest,
+        publicKey: new Uint8Array(await fs.readFile(paths.publicKey)),
+        publicParams: new Uint8Array(await fs.readFile(paths.publicParams)),
+      } as PublicKeyCacheEntry;
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  async set(key: string, entry: PublicKeyCacheEntry) {
+    const fs = await eval('import("fs/promises")');
+    const paths = this.paths(key);
+    const { publicKey, publicParams, ...manifest } = entry;
+    await fs.mkdir(this.directory, { recursive: true });
+    await fs.writeFile(paths.publicKey, publicKey);
+    await fs.writeFile(paths.publicParams, publicParams);
+    // Written last: a manifest only exists once both binaries are complete
+    await fs.writeFile(paths.manifest, JSON.stringify(manifest, null, 2));
+  }
+
+  async remove(key: string) {
+    const fs = await eval('import("fs/promises")');
+    await Promise.all(Object.values(this.paths(key)).map(path => fs.rm(path, { force: true })));
+  }
+}
+
+async function sha256Hex(bytes: Uint8Array): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', bytes);
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Ask the relayer which public key and CRS are current. Only fetches the
+ * small key-URL listing, not the keys themselves
+ */
+export async function fetchRelayerKeyIds(relayerUrl: string): Promise<RelayerKeyIds> {
+  const response = await fetch(`${relayerUrl.replace(/\/+$/, '')}/v1/keyurl`);
+  if (!response.ok) {
+    throw new Error(`Relayer key listing failed: HTTP ${response.status}`);
+  }
+  const data = await response.json();
+
+  // The relayer SDK uses the first listed key, so the cache follows it
+  const publicKeyId = data?.response?.fhe_key_info?.[0]?.fhe_public_key?.data_id;
+  const publicParamsId = data?.response?.crs?.['2048']?.data_id;
+  if (!publicKeyId || !publicParamsId) {
+    throw new Error('Relayer key listing has no public key or CRS id');
+  }
+  return { publicKeyId, publicParamsId };
+}
+
+/**
+ * Validates, stores and invalidates cached key material
+ */
+export class PublicKeyCache {
+  constructor(private readonly storage: PublicKeyCacheStorage) {}
+
+  private key(chainId: number) {
+    return String(chainId);
+  }
+
+  /**
+   * Cached key material of a chain, or null when there is none, the relayer
+   * now serves another key or CRS, or the stored bytes fail their integrity check.
+   * Entries that no longer apply are removed.
+   */
+  async load(chainId: number, current: RelayerKeyIds): Promise<PublicKeyCacheEntry | null> {
+    const entry = await this.storage.get(this.key(chainId));
+    if (!entry) return null;
+
+    if (entry.publicKeyId !== current.publicKeyId || entry.publicParamsId !== current.publicParamsId) {
+      console.log('🔑 Relayer reports a new FHE public key, dropping the cached one');
+      await this.invalidate(chainId);
+      return null;
+    }
+
+    const [publicKeyHash, publicParamsHash] = await Promise.all([sha256Hex(entry.publicKey), sha256Hex(entry.publicParams)]);
+    if (publicKeyHash !== entry.publicKeyHash || publicParamsHash !== entry.publicParamsHash) {
+      console.warn('⚠️ Cached FHE public key failed its integrity check, dropping it');
+      await this.invalidate(chainId);
+      return null;
+    }
+
+    return entry;
+  }
+
+  /**
+   * Store the key material an initialized instance downloaded
+   */
+  async save(chainId: number, instance: any) {
+    // Awaited: a worker-backed instance answers asynchronously
+    const publicKey = await instance.getPublicKey?.();
+    const publicParams = await instance.getPublicParams?.(2048);
+    if (!publicKey?.publicKey || !publicParams?.publicParams) return;
+
+    await this.storage.set(this.key(chainId), {
+      chainId,
+      publicKeyId: publicKey.publicKeyId,
+      publicKey: publicKey.publicKey,
+      publicParamsId: publicParams.publicParamsId,
+      publicParams: publicParams.publicParams,
+      publicKeyHash: await sha256Hex(publicKey.publicKey),
+      publicParamsHash: await sha256Hex(publicParams.publicParams),
+      storedAt: Date.now(),
+    });
+  }
+
+  async invalidate(chainId: number) {
+    await this.storage.remove(this.key(chainId));
+  }
+}
+
+/**
+ * createInstance() config fields that make the relayer SDK use cached keys instead of downloading them
+ */
+export function toInstanceKeyConfig(entry: PublicKeyCacheEntry) {
+  return {
+    publicKey: { data: entry.publicKey, id: entry.publicKeyId },
+    publicParams: { 2048: { publicParams: entry.publicParams, publicParamsId: entry.publicParamsId } },
+  };
+}
+
+/** Relayer SDK errors about the key material it was given, as opposed to relayer or provider failures */
+const KEY_MATERIAL_ERROR = /deserialization failed|must provide a (public key|valid CRS)/i;
+
+function rejectsKeyMaterial(err: unknown): boolean {
+  return err instanceof Error && KEY_MATERIAL_ERROR.test(err.message);
+}
+
+/**
+ * Create the relayer SDK instance from cached key material when the relayer
+ * still serves the same key and CRS, otherwise download them and refresh the cache
+ */
+export async function createInstanceWithKeyCache(
+  createInstance: (config: any) => Promise<any>,
+  config: any,
+  cache: PublicKeyCache | null,
+  chainId: number
+) {
+  if (!cache || !config.relayerUrl) {
+    return createInstance(config);
+  }
+
+  const entry = await fetchRelayerKeyIds(config.relayerUrl)
+    .then(current => cache.load(chainId, current))
+    .catch(err => {
+      console.warn('⚠️ FHE public key cache unavailable, downloading keys:', err);
+      return null;
+    });
+
+  if (entry) {
+    try {
+      const instance = await createInstance({ ...config, ...toInstanceKeyConfig(entry) });
+      console.log('⚡ FHE public key loaded from cache');
+      return instance;
+    } catch (err) {
+      // Relayer outages and provider errors say nothing about the cached keys: keep them
+      if (!rejectsKeyMaterial(err)) throw err;
+      // Key material the relayer SDK cannot deserialize must not be reused
+      console.warn('⚠️ Cached FHE public key rejected, downloading keys:', err);
+      await cache.invalidate(chainId).catch(() => undefined);
+    }
+  }
+
+  const instance = await createInstance(config);
+  await cache.save(chainId, instance).catch(err => console.warn('⚠️ Could not cache FHE public key:', err));
+  return instance;
+}
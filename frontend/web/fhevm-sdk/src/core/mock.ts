@@ -0,0 +1,58 @@
+/**
+ * Mock FHEVM Backend - Universal SDK
+ * Same instance interface as the relayer SDK, served by a local Hardhat node
+ * running the FHEVM mock (`npx hardhat node` with @fhevm/hardhat-plugin):
+ * plaintext handles, on-chain ACL checks and mock KMS / coprocessor signatures
+ */
+
+import { ethers } from 'ethers';
+import { FhevmNetworkConfig } from './networks.js';
+
+/** 'relayer' talks to the Zama relayer, 'mock' to a local Hardhat FHEVM mock node */
+export type FhevmMode = 'relayer' | 'mock';
+
+/**
+ * Create a MockFhevmInstance against a Hardhat node.
+ * Host contract addresses come from the node itself (fhevm_relayer_metadata),
+ * so they always match what the plugin deployed.
+ */
+export async function createMockInstance(network: FhevmNetworkConfig, rpcUrl = network.rpcUrl) {
+  if (!rpcUrl) {
+    throw new Error(`No rpcUrl configured for FHEVM network "${network.name}"`);
+  }
+
+  const provider = new ethers.JsonRpcProvider(rpcUrl);
+
+  const chainId = Number((await provider.getNetwork()).chainId);
+  if (chainId !== network.chainId) {
+    throw new Error(`Mock node at ${rpcUrl} is on chain ${chainId}, expected ${network.chainId} (${network.name})`);
+  }
+
+  let metadata: any;
+  try {
+    metadata = await provider.send('fhevm_relayer_metadata', []);
+  } catch (err) {
+    throw new Error(`${rpcUrl} is not a Hardhat node with the FHEVM mock. Start one with \`npx hardhat node\``);
+  }
+
+  const { MockFhevmInstance } = await import('@fhevm/mock-utils');
+
+  return MockFhevmInstance.create(
+    provider,
+    provider,
+    {
+      aclContractAddress: metadata.ACLAddress,
+      chainId,
+      gatewayChainId: metadata.gatewayChainId ?? network.gatewayChainId,
+      inputVerifierContractAddress: metadata.InputVerifierAddress,
+      kmsContractAddress: metadata.KMSVerifierAddress,
+      verifyingContractAddressDecryption: network.verifyingContractAddressDecryption as `0x${string}`,
+      verifyingContractAddressInputVerification: network.verifyingContractAddressInputVerification as `0x${string}`,
+    },
+    {
+      // Signers, threshold and EIP-712 domains are read from the deployed verifiers
+      inputVerifierProperties: {},
+      kmsVerifierProperties: {},
+    }
+  );
+}
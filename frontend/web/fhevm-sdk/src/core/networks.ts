@@ -0,0 +1,152 @@
+/**
+ * FHEVM Network Configuration - Universal SDK
+ * Built-in network presets and custom chain support for FHEVM initialization
+ */
+
+import { ethers } from 'ethers';
+
+/**
+ * Everything the relayer SDK needs to know about an FHEVM deployment
+ */
+export interface FhevmNetworkConfig {
+  name: string;
+  /** FHEVM host chain id */
+  chainId: number;
+  /** Gateway chain id */
+  gatewayChainId: number;
+  relayerUrl?: string;
+  /** Default JSON-RPC URL for the host chain (used in Node.js) */
+  rpcUrl?: string;
+  aclContractAddress: string;
+  kmsContractAddress: string;
+  inputVerifierContractAddress: string;
+  /** Decryption contract on the gateway chain */
+  verifyingContractAddressDecryption: string;
+  /** Input verification contract on the gateway chain */
+  verifyingContractAddressInputVerification: string;
+}
+
+export type FhevmNetworkPreset = 'sepolia' | 'hardhat-local';
+
+/**
+ * Network selection accepted by FhevmClient and initializeFheInstance:
+ * - a preset name
+ * - a preset with some fields overridden
+ * - a fully custom network
+ */
+export type FhevmNetworkOption =
+  | FhevmNetworkPreset
+  | ({ preset: FhevmNetworkPreset } & Partial<FhevmNetworkConfig>)
+  | ({ preset: 'custom' } & FhevmNetworkConfig);
+
+export const FHEVM_NETWORKS: Readonly<Record<FhevmNetworkPreset, FhevmNetworkConfig>> = {
+  sepolia: {
+    name: 'sepolia',
+    chainId: 11155111,
+    gatewayChainId: 10901,
+    relayerUrl: 'https://relayer.testnet.zama.org',
+    rpcUrl: 'https://sepolia.infura.io/v3/96406da962744120afbe0cf64c8bd7b3',
+    aclContractAddress: '0xf0Ffdc93b7E186bC2f8CB3dAA75D86d1930A433D',
+    kmsContractAddress: '0xbE0E383937d564D7FF0BC3b46c51f0bF8d5C311A',
+    inputVerifierContractAddress: '0xBBC1fFCdc7C316aAAd72E807D9b0272BE8F84DA0',
+    verifyingContractAddressDecryption: '0x5D8BD78e2ea6bbE41f26dFe9fdaEAa349e077478',
+    verifyingContractAddressInputVerification: '0x483b9dE06E4E4C7D35CCf5837A1668487406D955',
+  },
+  // Addresses deployed by @fhevm/hardhat-plugin on `npx hardhat node`
+  'hardhat-local': {
+    name: 'hardhat-local',
+    chainId: 31337,
+    gatewayChainId: 10901,
+    rpcUrl: 'http://127.0.0.1:8545',
+    aclContractAddress: '0x50157CFfD6bBFA2DECe204a89ec419c23ef5755D',
+    kmsContractAddress: '0x901F8942346f7AB3a01F6D7613119Bca447Bb030',
+    inputVerifierContractAddress: '0x36772142b74871f255CbD7A3e89B401d3e45825f',
+    verifyingContractAddressDecryption: '0x5ffdaAB0373E62E2ea2944776209aEf29E631A64',
+    verifyingContractAddressInputVerification: '0x812b06e1CDCE800494b79fFE4f925A504a9A9810',
+  },
+};
+
+const ADDRESS_FIELDS = [
+  'aclContractAddress',
+  'kmsContractAddress',
+  'inputVerifierContractAddress',
+  'verifyingContractAddressDecryption',
+  'verifyingContractAddressInputVerification',
+] as const;
+
+/**
+ * Built-in preset for a chain id, if any
+ */
+export function findNetworkPreset(chainId: number): FhevmNetworkPreset | undefined {
+  return (Object.keys(FHEVM_NETWORKS) as FhevmNetworkPreset[]).find(preset => FHEVM_NETWORKS[preset].chainId === chainId);
+}
+
+/**
+ * Resolve a network option into a complete, validated network config
+ */
+export function resolveNetworkConfig(option: FhevmNetworkOption = 'sepolia'): FhevmNetworkConfig {
+  let network: FhevmNetworkConfig;
+
+  if (typeof option === 'string') {
+    network = FHEVM_NETWORKS[option];
+    if (!network) {
+      throw new Error(`Unknown FHEVM network preset: ${option}`);
+    }
+    return { ...network };
+  }
+
+  const { preset, ...fields } = option;
+  if (preset === 'custom') {
+    network = { ...(fields as FhevmNetworkConfig) };
+  } else {
+    if (!FHEVM_NETWORKS[preset]) {
+      throw new Error(`Unknown FHEVM network preset: ${preset}`);
+    }
+    network = { ...FHEVM_NETWORKS[preset], ...fields };
+  }
+
+  if (!Number.isInteger(network.chainId) || network.chainId <= 0) {
+    throw new Error(`Invalid chainId for FHEVM network "${network.name}": ${network.chainId}`);
+  }
+  if (!Number.isInteger(network.gatewayChainId) || network.gatewayChainId <= 0) {
+    throw new Error(`Invalid gatewayChainId for FHEVM network "${network.name}": ${network.gatewayChainId}`);
+  }
+  for (const field of ADDRESS_FIELDS) {
+    if (!network[field] || !ethers.isAddress(network[field])) {
+      throw new Error(`Invalid ${field} for FHEVM network "${network.name}": ${network[field]}`);
+    }
+  }
+
+  return network;
+}
+
+/**
+ * Build the relayer SDK instance config for a network and EIP-1193 provider
+ */
+export function toInstanceConfig(network: FhevmNetworkConfig, provider: any) {
+  return {
+    aclContractAddress: network.aclContractAddress,
+    kmsContractAddress: network.kmsContractAddress,
+    inputVerifierContractAddress: network.inputVerifierContractAddress,
+    verifyingContractAddressDecryption: network.verifyingContractAddressDecryption,
+    verifyingContractAddressInputVerification: network.verifyingContractAddressInputVerification,
+    chainId: network.chainId,
+    gatewayChainId: network.gatewayChainId,
+    ...(network.relayerUrl && { relayerUrl: network.relayerUrl }),
+    network: provider,
+  };
+}
+
+/**
+ * Make sure the provider is actually connected to the network's chain
+ */
+export async function assertProviderChainId(provider: any, network: FhevmNetworkConfig) {
+  const chainIdHex = await provider.request({ method: 'eth_chainId' });
+  const actualChainId = Number(chainIdHex);
+
+  if (actualChainId !== network.chainId) {
+    throw new Error(
+      `Provider is connected to chain ${actualChainId}, but FHEVM network "${network.name}" expects chain ${network.chainId}`
+    );
+  }
+}
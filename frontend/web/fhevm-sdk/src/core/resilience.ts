@@ -0,0 +1,226 @@
+/**
+ * Relayer Resilience - Universal SDK
+ * Per-operation timeouts, retries with exponential backoff and a circuit breaker,
+ * shared by encryption and both decryption paths
+ */
+
+import { OperationCancelledError, RelayerUnavailableError, toFhevmError } from './errors.js';
+
+export type RelayerOperation = 'encrypt' | 'userDecrypt' | 'publicDecrypt';
+
+export interface RetryPolicy {
+  /** Extra attempts after the first one */
+  retries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  /** Randomize each delay between 0 and the backoff value ("full jitter") */
+  jitter: boolean;
+}
+
+export interface CircuitBreakerPolicy {
+  /** Consecutive transient failures that open the circuit */
+  failureThreshold: number;
+  /** How long the circuit stays open before a trial request is let through */
+  resetTimeoutMs: number;
+}
+
+export interface ResilienceConfig {
+  timeouts?: Partial<Record<RelayerOperation, number>>;
+  retry?: Partial<RetryPolicy>;
+  circuitBreaker?: Partial<CircuitBreakerPolicy>;
+}
+
+/** Per-call options of cancellable operations */
+export interface OperationOptions {
+  /** Aborting rejects the operation with OperationCancelledError */
+  signal?: AbortSignal;
+}
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+/**
+ * Anything that can run a relayer call under a policy, such as RelayerGuard.
+ * `fn` gets a signal that aborts when its attempt times out or the caller's signal aborts
+ */
+export interface RelayerRunner {
+  run<T>(operation: RelayerOperation, fn: (signal: AbortSignal) => Promise<T>, options?: OperationOptions): Promise<T>;
+}
+
+const DEFAULT_TIMEOUTS: Record<RelayerOperation, number> = {
+  encrypt: 60_000,
+  userDecrypt: 30_000,
+  publicDecrypt: 30_000,
+};
+
+const DEFAULT_RETRY: RetryPolicy = {
+  retries: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 8_000,
+  jitter: true,
+};
+
+const DEFAULT_CIRCUIT_BREAKER: CircuitBreakerPolicy = {
+  failureThreshold: 5,
+  resetTimeoutMs: 30_000,
+};
+
+/** Wait between attempts; rejects with OperationCancelledError as soon as the signal aborts */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(new OperationCancelledError());
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new OperationCancelledError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+function withTimeout<T>(promise: Promise<T>, ms: number, operation: RelayerOperation, attempt: AbortController): Promise<T> {
+  let timer: ReturnType<typeof setTimeout>;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      const error = new RelayerUnavailableError(`Relayer ${operation} timed out after ${ms}ms`);
+      reject(error);
+      // Lets worker-backed instances drop the timed-out call
+      attempt.abort(error);
+    }, ms);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+/**
+ * Signal that aborts when any of the given ones does
+ */
+export function anySignal(...signals: (AbortSignal | undefined)[]): AbortSignal | undefined {
+  const defined = signals.filter((signal): signal is AbortSignal => !!signal);
+  if (defined.length <= 1) return defined[0];
+
+  const controller = new AbortController();
+  for (const signal of defined) {
+    if (signal.aborted) {
+      controller.abort(signal.reason);
+      break;
+    }
+    signal.addEventListener('abort', () => controller.abort(signal.reason), { once: true, signal: controller.signal });
+  }
+  return controller.signal;
+}
+
+/**
+ * Reject with OperationCancelledError as soon as the signal aborts. Work already
+ * running on the main thread is not interrupted; its result is dropped
+ */
+export function withAbortSignal<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) return promise;
+  if (signal.aborted) return Promise.reject(new OperationCancelledError());
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(new OperationCancelledError());
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise
+      .then(resolve, reject)
+      .finally(() => signal.removeEventListener('abort', onAbort));
+  });
+}
+
+/**
+ * Runs relayer calls under the configured timeout, retry and circuit-breaker policy.
+ * Only RelayerUnavailableError (network failures, 5xx, 429, timeouts) is retried
+ * and counted by the breaker; user rejections, ACL denials etc. fail immediately.
+ * Encryption timeouts are not retried: the relayer may still be verifying that proof.
+ * A half-open circuit lets a single trial request through and rejects the rest until it settles.
+ * A cancelled call stops retrying at once and does not count against the relayer.
+ */
+export class RelayerGuard implements RelayerRunner {
+  private readonly timeouts: Record<RelayerOperation, number>;
+  private readonly retry: RetryPolicy;
+  private readonly breaker: CircuitBreakerPolicy;
+
+  private consecutiveFailures = 0;
+  private openedAt = 0;
+  private state: CircuitState = 'closed';
+  private trialInFlight = false;
+
+  constructor(config: ResilienceConfig = {}) {
+    this.timeouts = { ...DEFAULT_TIMEOUTS, ...config.timeouts };
+    this.retry = { ...DEFAULT_RETRY, ...config.retry };
+    this.breaker = { ...DEFAULT_CIRCUIT_BREAKER, ...config.circuitBreaker };
+  }
+
+  get circuitState(): CircuitState {
+    if (this.state === 'open' && Date.now() - this.openedAt >= this.breaker.resetTimeoutMs) {
+      return 'half-open';
+    }
+    return this.state;
+  }
+
+  /** Close the circuit and forget past failures */
+  reset() {
+    this.state = 'closed';
+    this.consecutiveFailures = 0;
+    this.openedAt = 0;
+  }
+
+  private backoff(attempt: number) {
+    const delay = Math.min(this.retry.maxDelayMs, this.retry.baseDelayMs * 2 ** attempt);
+    return this.retry.jitter ? Math.random() * delay : delay;
+  }
+
+  private onSuccess() {
+    this.reset();
+  }
+
+  private onTransientFailure() {
+    this.consecutiveFailures++;
+    if (this.state === 'half-open' || this.consecutiveFailures >= this.breaker.failureThreshold) {
+      this.state = 'open';
+      this.openedAt = Date.now();
+    }
+  }
+
+  async run<T>(operation: RelayerOperation, fn: (signal: AbortSignal) => Promise<T>, { signal }: OperationOptions = {}): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+      if (signal?.aborted) throw new OperationCancelledError();
+
+      const state = this.circuitState;
+      if (state === 'open') {
+        throw new RelayerUnavailableError(
+          `Relayer circuit is open after ${this.consecutiveFailures} consecutive failures; not calling ${operation}`
+        );
+      }
+      if (state === 'half-open' && this.trialInFlight) {
+        throw new RelayerUnavailableError(`Relayer circuit is half-open and a trial request is in flight; not calling ${operation}`);
+      }
+      this.state = state;
+
+      const trial = state === 'half-open';
+      const controller = new AbortController();
+      if (trial) this.trialInFlight = true;
+      try {
+        const attemptSignal = anySignal(signal, controller.signal) ?? controller.signal;
+        const result = await withAbortSignal(withTimeout(fn(attemptSignal), this.timeouts[operation], operation, controller), signal);
+        this.onSuccess();
+        return result;
+      } catch (err) {
+        // The caller gave up: whatever the attempt failed with says nothing about the relayer
+        if (signal?.aborted) throw new OperationCancelledError();
+        const error = toFhevmError(err);
+        if (!(error instanceof RelayerUnavailableError)) throw error;
+
+        this.onTransientFailure();
+        const timedOut = controller.signal.aborted;
+        if (attempt >= this.retry.retries || this.circuitState === 'open' || (timedOut && operation === 'encrypt')) throw error;
+
+        console.warn(`⚠️ Relayer ${operation} failed (attempt ${attempt + 1}), retrying...`, error.message);
+        await sleep(this.backoff(attempt), signal);
+      } finally {
+        if (trial) this.trialInFlight = false;
+      }
+    }
+  }
+}
@@ -0,0 +1,343 @@
+/**
+ * User Decryption Sessions - Universal SDK
+ * Reusable keypair + EIP-712 authorization, so a user signs once per session
+ * instead of once per decryption
+ */
+
+import { ethers } from 'ethers';
+import { MAX_USER_DECRYPT_CONTRACT_ADDRESSES } from './handles.js';
+import { FhevmNotInitializedError, toFhevmError } from './errors.js';
+
+/**
+ * Serializable state of a decryption session
+ */
+export interface DecryptionSessionData {
+  chainId: number;
+  userAddress: string;
+  publicKey: string;
+  privateKey: string;
+  signature: string;
+  contractAddresses: string[];
+  /** Unix timestamp (seconds) the authorization starts at */
+  startTimestamp: number;
+  durationDays: number;
+}
+
+/**
+ * Pluggable persistence for decryption sessions
+ */
+export interface DecryptionSessionStorage {
+  get(key: string): Promise<DecryptionSessionData | null>;
+  set(key: string, data: DecryptionSessionData): Promise<void>;
+  remove(key: string): Promise<void>;
+}
+
+// Sessions are considered expired slightly early so a request never races the deadline
+const EXPIRY_MARGIN_SECONDS = 60;
+
+export class DecryptionSession {
+  readonly data: DecryptionSessionData;
+
+  constructor(data: DecryptionSessionData) {
+    this.data = {
+      ...data,
+      userAddress: ethers.getAddress(data.userAddress),
+      contractAddresses: data.contractAddresses.map(address => ethers.getAddress(address)),
+    };
+  }
+
+  get userAddress() {
+    return this.data.userAddress;
+  }
+
+  get contractAddresses() {
+    return this.data.contractAddresses;
+  }
+
+  /** Unix timestamp (seconds) the authorization expires at */
+  get expiresAt() {
+    return this.data.startTimestamp + this.data.durationDays * 24 * 60 * 60;
+  }
+
+  isExpired(now = Math.floor(Date.now() / 1000)) {
+    return now >= this.expiresAt - EXPIRY_MARGIN_SECONDS;
+  }
+
+  /**
+   * Whether this session authorizes decryption for every given contract
+   */
+  covers(contractAddresses: string[]) {
+    return contractAddresses.every(address => this.data.contractAddresses.includes(ethers.getAddress(address)));
+  }
+
+  toJSON(): DecryptionSessionData {
+    return { ...this.data, contractAddresses: [...this.data.contractAddresses] };
+  }
+}
+
+/**
+ * In-memory storage - sessions live as long as the page or process
+ */
+export class MemorySessionStorage implements DecryptionSessionStorage {
+  private sessions = new Map<string, DecryptionSessionData>();
+
+  async get(key: string) {
+    return this.sessions.get(key) ?? null;
+  }
+
+  async set(key: string, data: DecryptionSessionData) {
+    this.sessions.set(key, data);
+  }
+
+  async remove(key: string) {
+    this.sessions.delete(key);
+  }
+}
+
+/**
+ * Browser localStorage - survives reloads, shared by tabs of the same origin
+ */
+export class LocalStorageSessionStorage implements DecryptionSessionStorage {
+  constructor(private readonly prefix = 'fhevm-sdk:session:') {}
+
+  async get(key: string) {
+    const raw = window.localStorage.getItem(this.prefix + key);
+    return raw ? (JSON.parse(raw) as DecryptionSessionData) : null;
+  }
+
+  async set(key: string, data: DecryptionSessionData) {
+    window.localStorage.setItem(this.prefix + key, JSON.stringify(data));
+  }
+
+  async remove(key: string) {
+    window.localStorage.removeItem(this.prefix + key);
+  }
+}
+
+/**
+ * Browser IndexedDB - survives reloads, not limited by localStorage quotas
+ */
+export class IndexedDBSessionStorage implements DecryptionSessionStorage {
+  private db: Promise<any> | null = null;
+
+  constructor(
+    private readonly dbName = 'fhevm-sdk',
+    private readonly storeName = 'decryption-sessions'
+  ) {}
+
+  private open() {
+    if (!this.db) {
+      const storeName = this.storeName;
+      this.db = import('idb').then(({ openDB }) =>
+        openDB(this.dbName, 1, {
+          upgrade(db) {
+            if (!db.objectStoreNames.contains(storeName)) {
+              db.createObjectStore(storeName);
+            }
+          },
+        })
+      );
+    }
+    return this.db;
+  }
+
+  async get(key: string) {
+    const db = await this.open();
+    return ((await db.get(this.storeName, key)) as DecryptionSessionData | undefined) ?? null;
+  }
+
+  async set(key: string, data: DecryptionSessionData) {
+    const db = await this.open();
+    await db.put(this.storeName, data, key);
+  }
+
+  async remove(key: string) {
+    const db = await this.open();
+    await db.delete(this.storeName, key);
+  }
+}
+
+/**
+ * Node.js JSON file - lets backend scripts reuse a session across runs
+ */
+export class FileSessionStorage implements DecryptionSessionStorage {
+  constructor(private readonly filePath: string) {}
+
+  private async readAll(): Promise<Record<string, DecryptionSessionData>> {
+    // Use eval to prevent webpack from analyzing these imports
+    const fs = await eval('import("fs/promises")');
+    try {
+      return JSON.parse(await fs.readFile(this.filePath, 'utf8'));
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') return {};
+      throw error;
+    }
+  }
+
+  private async writeAll(sessions: Record<string, DecryptionSessionData>) {
+    const fs = await eval('import("fs/promises")');
+    // The file holds decryption private keys - keep it owner-readable only
+    await fs.writeFile(this.filePath, JSON.stringify(sessions, null, 2), { mode: 0o600 });
+  }
+
+  async get(key: string) {
+    return (await this.readAll())[key] ?? null;
+  }
+
+  async set(key: string, data: DecryptionSessionData) {
+    const sessions = await this.readAll();
+    sessions[key] = data;
+    await this.writeAll(sessions);
+  }
+
+  async remove(key: string) {
+    const sessions = await this.readAll();
+    delete sessions[key];
+    await this.writeAll(sessions);
+  }
+}
+
+export interface DecryptionSessionManagerOptions {
+  storage?: DecryptionSessionStorage;
+  /** How long a signed authorization stays valid. Defaults to 10 days */
+  durationDays?: number;
+}
+
+/**
+ * Creates, reuses and revokes decryption sessions for an FHEVM instance
+ */
+export class DecryptionSessionManager {
+  private readonly storage: DecryptionSessionStorage;
+  private readonly durationDays: number;
+  /** Follows the client's network, which changes when the wallet switches chain */
+  private readonly getChainId: () => number;
+  /** Sessions being signed, shared by concurrent callers so the wallet prompts once */
+  private readonly pending = new Map<string, Promise<DecryptionSession>>();
+
+  constructor(
+    private readonly getInstance: () => any,
+    chainId: number | (() => number),
+    options: DecryptionSessionManagerOptions = {}
+  ) {
+    this.getChainId = typeof chainId === 'function' ? chainId : () => chainId;
+    this.storage = options.storage ?? new MemorySessionStorage();
+    this.durationDays = options.durationDays ?? 10;
+  }
+
+  private key(userAddress: string, chainId = this.getChainId()) {
+    return `${chainId}:${ethers.getAddress(userAddress)}`;
+  }
+
+  /**
+   * Load the stored session of a user, dropping it when it has expired
+   */
+  async load(userAddress: string): Promise<DecryptionSession | null> {
+    const key = this.key(userAddress);
+    const data = await this.storage.get(key);
+    if (!data) return null;
+
+    const session = new DecryptionSession(data);
+    if (session.isExpired()) {
+      await this.storage.remove(key);
+      return null;
+    }
+    return session;
+  }
+
+  /**
+   * Return a valid session covering the contracts, asking the signer for a
+   * new EIP-712 signature only when no stored session covers them.
+   * A new session also covers the contracts of the previous one, as long as
+   * the relayer's contract address limit allows it.
+   */
+  async getSession(signer: any, contractAddresses: string[]): Promise<DecryptionSession> {
+    const userAddress = await signer.getAddress();
+    const key = this.key(userAddress);
+
+    // Share a session already being signed, including its rejection; sign again only for uncovered contracts
+    const inFlight = this.pending.get(key);
+    if (inFlight) {
+      const session = await inFlight;
+      return session.covers(contractAddresses) ? session : this.getSession(signer, contractAddresses);
+    }
+
+    const session = this.resolveSession(signer, userAddress, contractAddresses);
+    this.pending.set(key, session);
+    const clear = () => {
+      if (this.pending.get(key) === session) this.pending.delete(key);
+    };
+    session.then(clear, clear);
+    return session;
+  }
+
+  private async resolveSession(signer: any, userAddress: string, contractAddresses: string[]): Promise<DecryptionSession> {
+    const existing = await this.load(userAddress);
+    if (existing && existing.covers(contractAddresses)) {
+      return existing;
+    }
+
+    const requested = new Set(contractAddresses.map(address => ethers.getAddress(address)));
+    if (requested.size > MAX_USER_DECRYPT_CONTRACT_ADDRESSES) {
+      throw new Error(`A decryption session covers at most ${MAX_USER_DECRYPT_CONTRACT_ADDRESSES} contracts, got ${requested.size}`);
+    }
+
+    const merged = new Set(requested);
+    existing?.contractAddresses.forEach(address => merged.add(address));
+
+    return this.create(signer, [...(merged.size <= MAX_USER_DECRYPT_CONTRACT_ADDRESSES ? merged : requested)]);
+  }
+
+  /**
+   * Sign a brand new session, replacing any stored one
+   */
+  async create(signer: any, contractAddresses: string[]): Promise<DecryptionSession> {
+    const fhe = this.getInstance();
+    if (!fhe) throw new FhevmNotInitializedError();
+
+    const keypair = await fhe.generateKeypair();
+    const startTimestamp = Math.floor(Date.now() / 1000);
+
+    const eip712 = await fhe.createEIP712(
+      keypair.publicKey,
+      contractAddresses,
+      startTimestamp.toString(),
+      this.durationDays.toString()
+    );
+
+    let signature: string;
+    try {
+      signature = await signer.signTypedData(
+        eip712.domain,
+        {
+          UserDecryptRequestVerification: eip712.types.UserDecryptRequestVerification,
+        },
+        eip712.message
+      );
+    } catch (error) {
+      // A declined signature surfaces as UserRejectedError
+      throw toFhevmError(error);
+    }
+
+    const session = new DecryptionSession({
+      chainId: this.getChainId(),
+      userAddress: await signer.getAddress(),
+      publicKey: keypair.publicKey,
+      privateKey: keypair.privateKey,
+      signature,
+      contractAddresses,
+      startTimestamp,
+      durationDays: this.durationDays,
+    });
+
+    await this.storage.set(this.key(session.userAddress), session.toJSON());
+    console.log('🔑 New decryption session signed for', session.userAddress);
+    return session;
+  }
+
+  /**
+   * Forget a user's session; the next decryption asks for a new signature
+   */
+  async revoke(userAddress: string, chainId?: number) {
+    await this.storage.remove(this.key(userAddress, chainId));
+  }
+}
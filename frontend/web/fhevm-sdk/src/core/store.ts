@@ -0,0 +1,468 @@
+/**
+ * FHEVM Store - Universal SDK
+ * Framework-agnostic observable state shared by every adapter and plain code:
+ * instance status, wallet, pending operations and last errors
+ */
+
+import { FhevmLifecycleEvent, FhevmPhase } from './events.js';
+import { FhevmClient, FhevmClientConfig } from './client.js';
+import { ClearValue } from './handles.js';
+import { FhevmInstanceResetError } from './errors.js';
+import { Eip6963ProviderDetail, loadWalletChoice, requestWallets, saveWalletChoice } from './discovery.js';
+import { getDefaultClient, initializeFheInstance, onFhevmLifecycle } from './fhevm.js';
+
+export type FhevmStatus = 'idle' | 'loading' | 'ready' | 'error';
+
+export type FhevmOperationKind = 'encrypt' | 'decrypt';
+
+export interface FhevmWalletState {
+  address: string;
+  chainId: number;
+  isConnected: boolean;
+  isConnecting: boolean;
+  /** EIP-1193 provider of the wallet when it is not window.ethereum: from selectWallet() or a connector such as wagmi */
+  provider?: any;
+  /** rdns of the wallet picked with selectWallet() */
+  rdns?: string;
+}
+
+export interface FhevmState {
+  status: FhevmStatus;
+  instance: any;
+  phase: FhevmPhase;
+  /** Overall initialization percentage (0-100) */
+  progress: number;
+  wallet: FhevmWalletState;
+  /** Operations currently running, per kind */
+  pending: Record<FhevmOperationKind, number>;
+  /** Last error message per area; cleared when the next attempt starts */
+  errors: Record<'initialize' | 'wallet' | FhevmOperationKind, string>;
+  /** Clear values decrypted so far, by decryptedKey(); emptied on account switch and reinitialization */
+  decrypted: Record<string, ClearValue>;
+  /** Wallets announced through EIP-6963 while discoverWallets() runs */
+  wallets: Eip6963ProviderDetail[];
+}
+
+/** Who can read a clear value: public decryptions are shared, user decryptions belong to the decrypting account */
+export type DecryptionAudience = { mode: 'public' } | { mode: 'user'; account: string };
+
+export type FhevmStateListener = (state: FhevmState, previous: FhevmState) => void;
+
+const DISCONNECTED: FhevmWalletState = { address: '', chainId: 0, isConnected: false, isConnecting: false };
+
+/**
+ * Immutable-snapshot store: every update replaces the state object, so
+ * getState() can back React's useSyncExternalStore directly
+ */
+export class FhevmStore {
+  private state: FhevmState;
+  private readonly listeners = new Set<FhevmStateListener>();
+
+  constructor(initial: FhevmState) {
+    this.state = initial;
+  }
+
+  getState = (): FhevmState => this.state;
+
+  /**
+   * Listen to every state change. Returns an unsubscribe function
+   */
+  subscribe = (listener: FhevmStateListener): (() => void) => {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  };
+
+  setState(update: Partial<FhevmState> | ((state: FhevmState) => Partial<FhevmState>)) {
+    const previous = this.state;
+    this.state = { ...previous, ...(typeof update === 'function' ? update(previous) : update) };
+    for (const listener of this.listeners) {
+      try {
+        listener(this.state, previous);
+      } catch (err) {
+        // A failing subscriber must not stop the others
+        console.error('FHEVM store listener failed:', err);
+      }
+    }
+  }
+}
+
+function initialState(client: FhevmClient): FhevmState {
+  const { phase, progress } = client.getLifecycle();
+  return {
+    status: client.isInitialized() ? 'ready' : 'idle',
+    instance: client.getInstance(),
+    phase,
+    progress,
+    wallet: DISCONNECTED,
+    pending: { encrypt: 0, decrypt: 0 },
+    errors: { initialize: '', wallet: '', encrypt: '', decrypt: '' },
+    decrypted: {},
+    wallets: [],
+  };
+}
+
+/** Bookkeeping kept next to a store's state */
+interface StoreScope {
+  /** Client whose lifecycle the store follows */
+  client: () => FhevmClient;
+  initializing: Promise<any> | null;
+  /** Bumped whenever the decrypted values are dropped, so decryptions still running are not stored */
+  decryptedGeneration: number;
+  decrypting: Map<string, Promise<ClearValue>>;
+}
+
+const scopes = new WeakMap<FhevmStore, StoreScope>();
+
+function createScope(store: FhevmStore, client: () => FhevmClient) {
+  scopes.set(store, { client, initializing: null, decryptedGeneration: 0, decrypting: new Map() });
+}
+
+function scopeOf(store: FhevmStore): StoreScope {
+  const scope = scopes.get(store);
+  if (!scope) throw new Error('FhevmStore was not created by createFhevmStore()');
+  return scope;
+}
+
+/** Store of the default client, used by the Vue composables and by React hooks outside an FhevmProvider */
+export const fhevmStore = new FhevmStore(initialState(getDefaultClient()));
+createScope(fhevmStore, getDefaultClient);
+
+/**
+ * Store of one client, so several clients can run side by side; FhevmProvider creates one per client.
+ * Call followFhevmClient() to keep it up to date
+ */
+export function createFhevmStore(client: FhevmClient): FhevmStore {
+  const store = new FhevmStore(initialState(client));
+  createScope(store, () => client);
+  return store;
+}
+
+function clearDecrypted(store: FhevmStore): Pick<FhevmState, 'decrypted'> {
+  const scope = scopeOf(store);
+  scope.decryptedGeneration++;
+  scope.decrypting.clear();
+  return { decrypted: {} };
+}
+
+function applyLifecycle(store: FhevmStore, event: FhevmLifecycleEvent) {
+  store.setState(state => {
+    const lifecycle = { phase: event.type, progress: event.progress };
+    switch (event.type) {
+      case 'reinitializing':
+        return { ...lifecycle, ...clearDecrypted(store), status: 'loading', instance: null };
+      case 'instance-ready':
+        return { ...lifecycle, status: 'ready', instance: scopeOf(store).client().getInstance(), errors: { ...state.errors, initialize: '' } };
+      case 'error':
+        return { ...lifecycle, status: 'error', instance: null, errors: { ...state.errors, initialize: event.error.message } };
+      case 'disposed':
+        return { ...lifecycle, ...clearDecrypted(store), status: 'idle', instance: null };
+      default:
+        return { ...lifecycle, status: 'loading' };
+    }
+  });
+}
+
+// Also follows automatic rebuilds when the wallet switches chain or account
+onFhevmLifecycle(event => applyLifecycle(fhevmStore, event));
+
+/**
+ * Record the lifecycle events of a createFhevmStore() store's client, including automatic
+ * rebuilds on chain or account switches. Returns a function that stops following
+ */
+export function followFhevmClient(store: FhevmStore): () => void {
+  syncFhevmStore(store);
+  return scopeOf(store).client().events.on('*', event => applyLifecycle(store, event));
+}
+
+/**
+ * Re-read status, instance and lifecycle from the store's client,
+ * e.g. after setDefaultClient() installed another default client
+ */
+export function syncFhevmStore(store: FhevmStore = fhevmStore) {
+  const { status, instance, phase, progress } = initialState(scopeOf(store).client());
+  store.setState({ status, instance, phase, progress });
+}
+
+/**
+ * Initialize the store's client once: concurrent callers share the same promise.
+ * Options replace the default client and only apply to the default store
+ */
+export function initializeFhevm(options?: FhevmClientConfig, store: FhevmStore = fhevmStore): Promise<any> {
+  if (options && store !== fhevmStore) {
+    throw new Error('Configure the client given to createFhevmStore() instead of passing options');
+  }
+  const scope = scopeOf(store);
+  if (scope.initializing) return scope.initializing;
+
+  store.setState(state => ({ status: 'loading', errors: { ...state.errors, initialize: '' } }));
+  const initializing: Promise<any> = (options ? initializeFheInstance(options) : scope.client().initialize())
+    .then(instance => {
+      console.log('✅ FHEVM initialized');
+      return instance;
+    })
+    .catch(err => {
+      // Abandoned by dispose(): the 'disposed' lifecycle event already set the status
+      if (err instanceof FhevmInstanceResetError) throw err;
+      // Lifecycle errors are already recorded; this covers failures before the first event
+      store.setState(state => ({
+        status: 'error',
+        errors: { ...state.errors, initialize: err instanceof Error ? err.message : 'Unknown error' },
+      }));
+      console.error('❌ FHEVM initialization failed:', err);
+      throw err;
+    })
+    .finally(() => {
+      if (scope.initializing === initializing) scope.initializing = null;
+    });
+  return scope.initializing = initializing;
+}
+
+/**
+ * Rebuild the store's client, e.g. after setProvider(): an initialization in flight on the
+ * previous provider is superseded instead of shared. Nothing to do before the first initialization
+ */
+export function reinitializeFhevm(store: FhevmStore = fhevmStore): Promise<any> {
+  const scope = scopeOf(store);
+  const client = scope.client();
+  if (!client.isInitialized() && store.getState().status !== 'loading') return Promise.resolve(null);
+
+  // The client's generation token makes the initialization still running settle with the new instance
+  scope.initializing = null;
+  return initializeFhevm(undefined, store);
+}
+
+/**
+ * Run an SDK operation, counting it as pending and recording its error
+ */
+export async function runFhevmOperation<T>(
+  kind: FhevmOperationKind,
+  operation: () => Promise<T>,
+  fallbackMessage?: string,
+  store: FhevmStore = fhevmStore
+): Promise<T> {
+  store.setState(state => ({
+    pending: { ...state.pending, [kind]: state.pending[kind] + 1 },
+    errors: { ...state.errors, [kind]: '' },
+  }));
+  try {
+    return await operation();
+  } catch (err) {
+    store.setState(state => ({
+      errors: { ...state.errors, [kind]: (err instanceof Error && err.message) || fallbackMessage || `${kind} failed` },
+    }));
+    throw err;
+  } finally {
+    store.setState(state => ({ pending: { ...state.pending, [kind]: state.pending[kind] - 1 } }));
+  }
+}
+
+/**
+ * Key of a clear value in FhevmState.decrypted
+ */
+export function decryptedKey(handle: string, audience: DecryptionAudience): string {
+  const owner = audience.mode === 'user' ? audience.account.toLowerCase() : 'public';
+  return `${owner}:${handle.toLowerCase()}`;
+}
+
+/**
+ * Decrypt a handle at most once per audience: a known clear value is returned from
+ * the store and concurrent requests for the same handle share one decryption
+ */
+export function decryptHandle(
+  handle: string,
+  decrypt: () => Promise<ClearValue>,
+  audience: DecryptionAudience,
+  store: FhevmStore = fhevmStore
+): Promise<ClearValue> {
+  const key = decryptedKey(handle, audience);
+  const known = store.getState().decrypted;
+  if (key in known) return Promise.resolve(known[key]);
+
+  const scope = scopeOf(store);
+  let pending = scope.decrypting.get(key);
+  if (!pending) {
+    const generation = scope.decryptedGeneration;
+    const request: Promise<ClearValue> = runFhevmOperation('decrypt', decrypt, 'Decryption failed', store)
+      .then(value => {
+        if (generation === scope.decryptedGeneration) {
+          store.setState(state => ({ decrypted: { ...state.decrypted, [key]: value } }));
+        }
+        return value;
+      })
+      .finally(() => {
+        if (scope.decrypting.get(key) === request) scope.decrypting.delete(key);
+      });
+    scope.decrypting.set(key, pending = request);
+  }
+  return pending;
+}
+
+const setWallet = (wallet: Partial<FhevmWalletState>, error?: string, store: FhevmStore = fhevmStore) =>
+  store.setState(state => ({
+    wallet: { ...state.wallet, ...wallet },
+    ...(error !== undefined && { errors: { ...state.errors, wallet: error } }),
+    // Another account must not see the previous one's decrypted values
+    ...(wallet.address !== undefined && wallet.address.toLowerCase() !== state.wallet.address.toLowerCase() && clearDecrypted(store)),
+  }));
+
+/**
+ * Record wallet state from an external connector, such as wagmi's account
+ */
+export function setFhevmWallet(wallet: Partial<FhevmWalletState>, store: FhevmStore = fhevmStore) {
+  setWallet(wallet, undefined, store);
+}
+
+// Wallet discovery, selection and connection below are page-wide: they always use the default store
+
+/** Provider SDK operations go through: the selected or connector's wallet, else window.ethereum */
+function currentProvider(): any {
+  return fhevmStore.getState().wallet.provider ?? (typeof window !== 'undefined' ? window.ethereum : undefined);
+}
+
+let walletWatchers = 0;
+let unwatchWallet: (() => void) | null = null;
+
+function bindWalletEvents() {
+  unwatchWallet?.();
+  unwatchWallet = null;
+
+  const ethereum = currentProvider();
+  if (!ethereum) return;
+
+  const handleChainChanged = (chainIdHex: string) => {
+    const chainId = parseInt(chainIdHex, 16);
+    setWallet({ chainId });
+    console.log('🔄 Chain changed to:', chainId);
+  };
+
+  const handleAccountsChanged = (accounts: string[]) => {
+    if (accounts.length === 0) {
+      // User disconnected
+      setWallet(DISCONNECTED);
+    } else {
+      setWallet({ address: accounts[0] });
+    }
+  };
+
+  ethereum.on('chainChanged', handleChainChanged);
+  ethereum.on('accountsChanged', handleAccountsChanged);
+  unwatchWallet = () => {
+    ethereum.removeListener('chainChanged', handleChainChanged);
+    ethereum.removeListener('accountsChanged', handleAccountsChanged);
+  };
+}
+
+/**
+ * Follow the wallet's chain and account changes while at least one caller watches.
+ * Returns a function that stops this caller's watch
+ */
+export function watchWallet(): () => void {
+  if (typeof window === 'undefined') return () => undefined;
+
+  if (walletWatchers++ === 0) bindWalletEvents();
+
+  let stopped = false;
+  return () => {
+    if (stopped) return;
+    stopped = true;
+    if (--walletWatchers === 0) {
+      unwatchWallet?.();
+      unwatchWallet = null;
+    }
+  };
+}
+
+let discoveryWatchers = 0;
+let stopDiscovery: (() => void) | null = null;
+
+/**
+ * Collect EIP-6963 wallet announcements into the store while at least one caller watches.
+ * The wallet picked on a previous visit is selected again as soon as it announces itself.
+ * Returns a function that stops this caller's watch
+ */
+export function discoverWallets(): () => void {
+  if (typeof window === 'undefined') return () => undefined;
+
+  if (discoveryWatchers++ === 0) {
+    const remembered = loadWalletChoice();
+    stopDiscovery = requestWallets(wallet => {
+      fhevmStore.setState(state => ({
+        // A wallet announces again on every request; keep one entry per rdns
+        wallets: [...state.wallets.filter(known => known.info.rdns !== wallet.info.rdns), wallet],
+      }));
+      // A connector's provider (e.g. wagmi) takes precedence over the remembered choice
+      if (wallet.info.rdns === remembered && !fhevmStore.getState().wallet.provider) {
+        selectWallet(wallet.info.rdns).catch(() => undefined);
+      }
+    });
+  }
+
+  let stopped = false;
+  return () => {
+    if (stopped) return;
+    stopped = true;
+    if (--discoveryWatchers === 0) {
+      stopDiscovery?.();
+      stopDiscovery = null;
+    }
+  };
+}
+
+/**
+ * Route every SDK operation through an announced wallet and remember the choice.
+ * Restores the connection when the wallet has already authorized this site, without a prompt
+ */
+export async function selectWallet(rdns: string) {
+  const wallet = fhevmStore.getState().wallets.find(known => known.info.rdns === rdns);
+  if (!wallet) throw new Error(`Wallet ${rdns} has not been discovered`);
+
+  const { provider } = wallet;
+  if (fhevmStore.getState().wallet.provider === provider) return;
+
+  saveWalletChoice(rdns);
+  // The previous wallet's account no longer applies; isConnecting is left to connectWallet()
+  setWallet({ address: '', chainId: 0, isConnected: false, provider, rdns }, '');
+  if (walletWatchers > 0) bindWalletEvents();
+
+  getDefaultClient().setProvider(provider);
+  reinitializeFhevm().catch(() => undefined);
+  console.log('👛 Wallet selected:', wallet.info.name);
+
+  const accounts: string[] = await provider.request({ method: 'eth_accounts' }).catch(() => []);
+  if (accounts.length > 0 && fhevmStore.getState().wallet.provider === provider) {
+    const chainIdHex = await provider.request({ method: 'eth_chainId' });
+    setWallet({ address: accounts[0], isConnected: true, chainId: parseInt(chainIdHex, 16) });
+  }
+}
+
+/**
+ * Request wallet accounts, from the given announced wallet or the current one
+ */
+export async function connectWallet(rdns?: string) {
+  setWallet({ isConnecting: true }, '');
+  try {
+    if (rdns) await selectWallet(rdns);
+
+    const ethereum = currentProvider();
+    if (!ethereum) {
+      setWallet({}, 'No wallet found. Please install a browser wallet such as MetaMask.');
+      return;
+    }
+
+    const accounts = await ethereum.request({ method: 'eth_requestAccounts' });
+    const chainIdHex = await ethereum.request({ method: 'eth_chainId' });
+    setWallet({ address: accounts[0], isConnected: true, chainId: parseInt(chainIdHex, 16) });
+    console.log('✅ Wallet connected:', accounts[0]);
+  } catch (err) {
+    setWallet({}, err instanceof Error ? err.message : 'Connection failed');
+    console.error('❌ Wallet connection failed:', err);
+  } finally {
+    setWallet({ isConnecting: false });
+  }
+}
+
+/** Forget the connection; the selected wallet stays selected */
+export function disconnectWallet() {
+  setWallet(DISCONNECTED, '');
+  console.log('🔌 Wallet disconnected');
+}
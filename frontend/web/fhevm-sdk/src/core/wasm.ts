@@ -0,0 +1,159 @@
+/**
+ * WASM Loading - Universal SDK
+ * Imports the relayer SDK as an ES module and loads its TFHE / KMS WASM
+ * from the npm package, a self-hosted base URL or the Zama CDN
+ */
+
+export type WasmAsset = 'tfhe' | 'kms';
+
+/** WASM file name per asset, as shipped in @zama-fhe/relayer-sdk */
+export const WASM_FILES: Readonly<Record<WasmAsset, string>> = {
+  tfhe: 'tfhe_bg.wasm',
+  kms: 'kms_lib_bg.wasm',
+};
+
+/** CDN folder matching the bundled @zama-fhe/relayer-sdk version */
+export const RELAYER_SDK_CDN_URL = 'https://cdn.zama.org/relayer-sdk-js/0.3.0-5/';
+
+export type WasmLoadingStrategy =
+  /** WASM emitted by the app's bundler from the npm package (default) */
+  | { source: 'npm' }
+  /** WASM served by the app, e.g. baseUrl '/' for files copied to public/ */
+  | { source: 'self-hosted'; baseUrl: string }
+  /** WASM fetched from the Zama CDN, or a mirror of it */
+  | { source: 'cdn'; baseUrl?: string };
+
+export interface WasmProgressEvent {
+  asset: WasmAsset;
+  url: string;
+  loaded: number;
+  /** From Content-Length; undefined when the server does not send it */
+  total?: number;
+}
+
+export interface WasmLoadingOptions {
+  strategy?: WasmLoadingStrategy;
+  /** Subresource-integrity hashes ("sha256-…", "sha384-…" or "sha512-…") checked before instantiation */
+  integrity?: Partial<Record<WasmAsset, string>>;
+  /** Download progress; only reported by the URL-based strategies, which fetch the files themselves */
+  onProgress?: (event: WasmProgressEvent) => void;
+  /** Worker threads for TFHE; defaults to navigator.hardwareConcurrency when cross-origin isolated */
+  thread?: number;
+}
+
+const SRI_ALGORITHMS: Record<string, string> = {
+  sha256: 'SHA-256',
+  sha384: 'SHA-384',
+  sha512: 'SHA-512',
+};
+
+function toBase64(bytes: ArrayBuffer): string {
+  let binary = '';
+  for (const byte of new Uint8Array(bytes)) binary += String.fromCharCode(byte);
+  return btoa(binary);
+}
+
+/**
+ * Check bytes against a subresource-integrity string; any listed hash may match
+ */
+export async function verifyIntegrity(bytes: Uint8Array, integrity: string, url: string) {
+  const expected = integrity.trim().split(/\s+/);
+  for (const entry of expected) {
+    const [prefix, hash] = entry.split(/-(.*)/s);
+    const algorithm = SRI_ALGORITHMS[prefix];
+    if (!algorithm || !hash) {
+      throw new Error(`Unsupported integrity value "${entry}" for ${url}`);
+    }
+    const digest = await crypto.subtle.digest(algorithm, bytes);
+    if (toBase64(digest) === hash) return;
+  }
+  throw new Error(`WASM integrity check failed for ${url}`);
+}
+
+/**
+ * Download a WASM file, reporting progress as chunks arrive
+ */
+async function fetchWasm(asset: WasmAsset, url: string, onProgress?: (event: WasmProgressEvent) => void) {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Failed to download ${url}: HTTP ${response.status}`);
+  }
+
+  const length = Number(response.headers.get('content-length'));
+  const total = Number.isFinite(length) && length > 0 ? length : undefined;
+
+  if (!response.body) {
+    const bytes = new Uint8Array(await response.arrayBuffer());
+    onProgress?.({ asset, url, loaded: bytes.length, total: total ?? bytes.length });
+    return bytes;
+  }
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let loaded = 0;
+  onProgress?.({ asset, url, loaded, total });
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+    loaded += value.length;
+    onProgress?.({ asset, url, loaded, total });
+  }
+
+  const bytes = new Uint8Array(loaded);
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return bytes;
+}
+
+/**
+ * WASM URLs for a URL-based strategy; undefined for 'npm', where the
+ * relayer SDK resolves its own files relative to the bundled module
+ */
+export function getWasmUrls(strategy: WasmLoadingStrategy): Record<WasmAsset, string> | undefined {
+  if (strategy.source === 'npm') return undefined;
+
+  const baseUrl = strategy.baseUrl ?? RELAYER_SDK_CDN_URL;
+  const base = baseUrl.endsWith('/') ? baseUrl : `${baseUrl}/`;
+  return {
+    tfhe: `${base}${WASM_FILES.tfhe}`,
+    kms: `${base}${WASM_FILES.kms}`,
+  };
+}
+
+/**
+ * Import the relayer SDK's browser build and initialize its WASM
+ */
+export async function loadRelayerSdk(options: WasmLoadingOptions = {}) {
+  const strategy = options.strategy ?? { source: 'npm' };
+  const urls = getWasmUrls(strategy);
+
+  if (!urls && options.integrity) {
+    throw new Error("WASM integrity checks need a URL-based strategy ('self-hosted' or 'cdn')");
+  }
+
+  const sdk = await import('@zama-fhe/relayer-sdk/web');
+
+  let tfheParams: Uint8Array | undefined;
+  let kmsParams: Uint8Array | undefined;
+  if (urls) {
+    console.log(`📦 Loading FHEVM WASM from ${strategy.source}...`);
+    [tfheParams, kmsParams] = await Promise.all(
+      (['tfhe', 'kms'] as const).map(async asset => {
+        const bytes = await fetchWasm(asset, urls[asset], options.onProgress);
+        const integrity = options.integrity?.[asset];
+        if (integrity) await verifyIntegrity(bytes, integrity, urls[asset]);
+        return bytes;
+      })
+    );
+  }
+
+  // With 'npm' the relayer SDK fetches the bundler's files itself, so there is no download progress
+  await sdk.initSDK({ tfheParams, kmsParams, thread: options.thread });
+  console.log(`✅ FHEVM SDK initialized (${strategy.source} WASM)`);
+  return sdk;
+}
@@ -0,0 +1,60 @@
+/**
+ * Worker Protocol - Universal SDK
+ * Messages exchanged between WorkerFhevmInstance and the FHEVM worker
+ */
+
+import { WasmLoadingOptions, WasmProgressEvent } from './wasm.js';
+
+/** Instance methods the worker runs as-is */
+export type WorkerMethod =
+  | 'userDecrypt'
+  | 'publicDecrypt'
+  | 'generateKeypair'
+  | 'createEIP712'
+  | 'getPublicKey'
+  | 'getPublicParams';
+
+/** Error fields toFhevmError() classifies on, copied across the thread boundary */
+export interface SerializedError {
+  name: string;
+  message: string;
+  code?: string | number;
+  status?: number;
+  data?: string;
+}
+
+/** Main thread -> worker */
+export type WorkerRequest =
+  | { type: 'load-wasm'; id: number; wasm: Omit<WasmLoadingOptions, 'onProgress'> }
+  /** Instance config without `network`; the worker bridges RPC calls back to the main thread */
+  | { type: 'create-instance'; id: number; config: Record<string, unknown> }
+  | { type: 'encrypt'; id: number; contractAddress: string; userAddress: string; values: [string, unknown][] }
+  | { type: 'call'; id: number; method: WorkerMethod; args: unknown[] }
+  | { type: 'cancel'; id: number }
+  | { type: 'rpc-result'; id: number; result?: unknown; error?: SerializedError };
+
+/** Worker -> main thread */
+export type WorkerResponse =
+  | { type: 'result'; id: number; result: unknown }
+  | { type: 'error'; id: number; error: SerializedError }
+  | { type: 'wasm-progress'; event: WasmProgressEvent }
+  | { type: 'rpc'; id: number; method: string; params?: unknown[] };
+
+export function serializeError(error: any): SerializedError {
+  return {
+    name: error?.name ?? 'Error',
+    message: error?.message ?? String(error),
+    code: error?.code,
+    status: error?.status ?? error?.cause?.status,
+    data: typeof error?.data === 'string' ? error.data : undefined,
+  };
+}
+
+export function deserializeError(data: SerializedError): Error {
+  const error: any = new Error(data.message);
+  error.name = data.name;
+  if (data.code !== undefined) error.code = data.code;
+  if (data.status !== undefined) error.cause = { status: data.status };
+  if (data.data !== undefined) error.data = data.data;
+  return error;
+}
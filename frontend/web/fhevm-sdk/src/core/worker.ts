@@ -0,0 +1,224 @@
+/**
+ * Worker Execution - Universal SDK
+ * Runs the relayer SDK in a Web Worker so WASM loading, input proofs and
+ * decryption keep the UI thread free. WorkerFhevmInstance mirrors the relayer
+ * SDK instance over postMessage, with async methods and AbortSignal support
+ */
+
+import { OperationCancelledError } from './errors.js';
+import { WasmLoadingOptions } from './wasm.js';
+import { WorkerMethod, WorkerRequest, WorkerResponse, serializeError, deserializeError } from './worker-protocol.js';
+
+/** true for the bundled worker script, or a factory for a worker your bundler emits */
+export type WorkerOption = boolean | (() => Worker);
+
+/** Distributive Omit, so each request variant keeps its own fields */
+type Outgoing<T> = T extends { id: number } ? Omit<T, 'id'> : never;
+
+interface PendingRequest {
+  resolve: (value: any) => void;
+  reject: (error: Error) => void;
+  cleanup: () => void;
+}
+
+const ADD_METHODS = ['addBool', 'add8', 'add16', 'add32', 'add64', 'add128', 'add256', 'addAddress'];
+
+export function supportsWorkers(): boolean {
+  return typeof Worker !== 'undefined';
+}
+
+/**
+ * Spawn the worker script shipped next to this module in dist/. Only the built
+ * package has fhevm.worker.js; apps importing the SDK from source pass a factory
+ */
+export function createFhevmWorker(): Worker {
+  if (/\.tsx?$/.test(new URL(import.meta.url).pathname)) {
+    throw new Error(
+      "worker: true needs the built SDK; when importing it from source pass a factory, e.g. "
+      + "worker: () => new Worker(new URL('<sdk>/src/core/fhevm.worker.ts', import.meta.url), { type: 'module' })"
+    );
+  }
+  return new Worker(new URL('./fhevm.worker.js', import.meta.url), { type: 'module' });
+}
+
+/**
+ * One worker and its outstanding requests, shared by every signal-bound view
+ */
+class WorkerChannel {
+  private nextId = 1;
+  private readonly pending = new Map<number, PendingRequest>();
+  private failure: Error | null = null;
+
+  constructor(
+    readonly worker: Worker,
+    private readonly provider: any,
+    private readonly options: Pick<WasmLoadingOptions, 'onProgress'>
+  ) {
+    worker.addEventListener('message', event => this.onMessage(event.data as WorkerResponse));
+    worker.addEventListener('error', event => {
+      event.preventDefault();
+      this.fail(new Error(`FHEVM worker failed: ${event.message || 'script error'}`));
+    });
+    worker.addEventListener('messageerror', () => this.fail(new Error('FHEVM worker sent a message that could not be deserialized')));
+  }
+
+  request<T>(message: Outgoing<WorkerRequest>, signal?: AbortSignal): Promise<T> {
+    if (this.failure) return Promise.reject(this.failure);
+    if (signal?.aborted) return Promise.reject(new OperationCancelledError());
+
+    const id = this.nextId++;
+    return new Promise<T>((resolve, reject) => {
+      const onAbort = () => {
+        this.settle(id);
+        // The worker drops the result; a WASM call already running still completes
+        this.worker.postMessage({ type: 'cancel', id } satisfies WorkerRequest);
+        reject(new OperationCancelledError());
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+      this.pending.set(id, { resolve, reject, cleanup: () => signal?.removeEventListener('abort', onAbort) });
+      this.worker.postMessage({ ...message, id } as WorkerRequest);
+    });
+  }
+
+  terminate() {
+    this.worker.terminate();
+    this.fail(new Error('FHEVM worker was terminated'));
+  }
+
+  private settle(id: number) {
+    const request = this.pending.get(id);
+    this.pending.delete(id);
+    request?.cleanup();
+    return request;
+  }
+
+  /** A dead worker fails every pending and future request */
+  private fail(error: Error) {
+    this.failure ??= error;
+    for (const id of [...this.pending.keys()]) {
+      this.settle(id)?.reject(error);
+    }
+  }
+
+  private onMessage(message: WorkerResponse) {
+    switch (message.type) {
+      case 'result':
+        this.settle(message.id)?.resolve(message.result);
+        break;
+      case 'error':
+        this.settle(message.id)?.reject(deserializeError(message.error));
+        break;
+      case 'wasm-progress':
+        this.options.onProgress?.(message.event);
+        break;
+      case 'rpc':
+        // The worker has no wallet; its chain reads go through the app's provider
+        Promise.resolve()
+          .then(() => this.provider.request({ method: message.method, params: message.params }))
+          .then(
+            result => this.worker.postMessage({ type: 'rpc-result', id: message.id, result } satisfies WorkerRequest),
+            error => this.worker.postMessage({ type: 'rpc-result', id: message.id, error: serializeError(error) } satisfies WorkerRequest)
+          );
+        break;
+    }
+  }
+}
+
+/**
+ * Relayer SDK instance living in a Web Worker. Same method names as the
+ * relayer SDK; everything returns a promise and accepts cancellation through
+ * withSignal(), which the FhevmClient applies for calls given a `signal`
+ */
+export class WorkerFhevmInstance {
+  private constructor(
+    private readonly channel: WorkerChannel,
+    private readonly signal?: AbortSignal
+  ) {}
+
+  /**
+   * Load the relayer SDK WASM in a worker; call createInstance() next
+   */
+  static async start(worker: Worker, provider: any, wasm: WasmLoadingOptions = {}) {
+    const { onProgress, ...options } = wasm;
+    const channel = new WorkerChannel(worker, provider, { onProgress });
+    try {
+      await channel.request({ type: 'load-wasm', wasm: options });
+    } catch (err) {
+      channel.terminate();
+      throw err;
+    }
+    return new WorkerFhevmInstance(channel);
+  }
+
+  /**
+   * Create the relayer SDK instance inside the worker. `network` is replaced
+   * by a bridge to the provider given to start()
+   */
+  async createInstance(config: Record<string, unknown>) {
+    const { network, ...rest } = config;
+    await this.channel.request({ type: 'create-instance', config: rest });
+    return this;
+  }
+
+  /** View of this instance whose calls are cancelled when the signal aborts */
+  withSignal(signal?: AbortSignal) {
+    return signal ? new WorkerFhevmInstance(this.channel, signal) : this;
+  }
+
+  private call<T>(method: WorkerMethod, args: unknown[]) {
+    return this.channel.request<T>({ type: 'call', method, args }, this.signal);
+  }
+
+  /**
+   * Records add* calls on the main thread; encrypt() sends them to the worker in one message
+   */
+  createEncryptedInput(contractAddress: string, userAddress: string) {
+    const values: [string, unknown][] = [];
+    const input: Record<string, any> = {
+      encrypt: () => this.channel.request({ type: 'encrypt', contractAddress, userAddress, values }, this.signal),
+    };
+    for (const method of ADD_METHODS) {
+      input[method] = (value: unknown) => {
+        values.push([method, value]);
+        return input;
+      };
+    }
+    return input;
+  }
+
+  userDecrypt(...args: unknown[]) {
+    return this.call<Record<string, any>>('userDecrypt', args);
+  }
+
+  publicDecrypt(handles: (string | Uint8Array)[]) {
+    return this.call<any>('publicDecrypt', [handles]);
+  }
+
+  generateKeypair() {
+    return this.call<{ publicKey: string; privateKey: string }>('generateKeypair', []);
+  }
+
+  createEIP712(...args: unknown[]) {
+    return this.call<any>('createEIP712', args);
+  }
+
+  getPublicKey() {
+    return this.call<{ publicKeyId: string; publicKey: Uint8Array } | null>('getPublicKey', []);
+  }
+
+  getPublicParams(bits: number) {
+    return this.call<{ publicParamsId: string; publicParams: Uint8Array } | null>('getPublicParams', [bits]);
+  }
+
+  /** Stop the worker; pending calls are rejected */
+  terminate() {
+    this.channel.terminate();
+  }
+}
+
+/**
+ * Bind a signal to a worker-backed instance; other instances are returned unchanged
+ */
+export function bindSignal<T>(instance: T, signal?: AbortSignal): T {
+  return signal && instance instanceof WorkerFhevmInstance ? (instance.withSignal(signal) as T) : instance;
+}
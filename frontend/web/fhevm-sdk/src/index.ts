@@ -7,6 +7,42 @@
 export * from './core/index.js';
 
 // Framework adapters - explicit exports to avoid conflicts
-export { useWallet, useFhevm, useContract, useDecrypt, useEncrypt } from './adapters/react.js';
+export {
+  useWallet,
+  useFhevm,
+  useContract,
+  useContractRead,
+  useContractReads,
+  contractReadKey,
+  useContractWrite,
+  useDecrypt,
+  useUserDecrypt,
+  usePublicDecrypt,
+  useVerifyDecryption,
+  useEncrypt,
+  useEncryptedValue,
+  useFhevmStore,
+  FhevmProvider,
+  useFhevmContext,
+  useFhevmClient,
+} from './adapters/react.js';
+export type {
+  FhevmProviderProps,
+  FhevmProviderWallet,
+  FhevmInitialization,
+  FhevmContextValue,
+  UseContractResult,
+  ContractReadCall,
+  UseContractReadOptions,
+  UseContractReadsOptions,
+  ContractWriteStatus,
+  ContractWriteResult,
+  UseContractWriteOptions,
+  EncryptedValueMode,
+  EncryptedValueStatus,
+  UseEncryptedValueOptions,
+  UserDecryptOptions,
+  OperationStatus,
+} from './adapters/react.js';
 
 
@@ -0,0 +1,21 @@
+/**
+ * Universal FHEVM SDK - Vue entry point
+ * Core plus Vue 3 composables, without pulling in React
+ */
+
+// Core FHEVM functionality
+export * from './core/index.js';
+
+// Vue composables
+export {
+  useWallet,
+  useFhevm,
+  useContract,
+  useDecrypt,
+  useUserDecrypt,
+  usePublicDecrypt,
+  useVerifyDecryption,
+  useEncrypt,
+  useFhevmStore,
+} from './adapters/vue.js';
+export type { UserDecryptOptions, UseVerifyDecryptionOptions, VerifyDecryptionStatus } from './adapters/vue.js';
@@ -0,0 +1,6 @@
+/**
+ * Universal FHEVM SDK - wagmi entry point
+ * Wagmi / viem integration for the React adapter; needs wagmi v2 and viem v2
+ */
+
+export { WagmiFhevmProvider, useWagmiFhevmWallet, useEthersSigner, clientToSigner } from './adapters/wagmi.js';
@@ -0,0 +1,138 @@
+import { ethers } from 'ethers';
+import type { FhevmInstance } from '@zama-fhe/relayer-sdk/web';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  FhevmClient,
+  FhevmInstanceResetError,
+  FhevmNotInitializedError,
+  OperationCancelledError,
+  ProofVerificationError,
+} from '../src/core/index.js';
+import { createMockInstance } from '../src/core/mock.js';
+import { CONTRACT, FakeInstance, asInstance, fakeInstance } from './helpers.js';
+
+const mock = vi.hoisted(() => ({ instance: null as FhevmInstance | null }));
+
+// Stands in for the Hardhat FHEVM mock node
+vi.mock('../src/core/mock.js', () => ({
+  createMockInstance: vi.fn(async () => mock.instance),
+}));
+
+describe('FhevmClient in mock mode', () => {
+  let instance: FakeInstance;
+  let client: FhevmClient;
+
+  beforeEach(() => {
+    instance = fakeInstance();
+    mock.instance = asInstance(instance);
+    client = new FhevmClient({ mode: 'mock' });
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  it('targets the local Hardhat network', () => {
+    expect(client.getNetwork().chainId).toBe(31337);
+    expect(client.isInitialized()).toBe(false);
+  });
+
+  it('reports lifecycle events while initializing', async () => {
+    const phases: string[] = [];
+    client.events.on('*', event => phases.push(event.type));
+
+    await client.initialize();
+    expect(client.isInitialized()).toBe(true);
+    expect(client.getLifecycle()).toEqual({ phase: 'instance-ready', progress: 100 });
+    expect(phases).toEqual(['instance-ready']);
+  });
+
+  it('requires initialization', async () => {
+    await expect(client.publicDecryptV09([])).rejects.toBeInstanceOf(FhevmNotInitializedError);
+    expect(() => client.createInputBuilder(CONTRACT, CONTRACT)).toThrow(FhevmNotInitializedError);
+  });
+
+  it('encrypts and user-decrypts under one session', async () => {
+    await client.initialize();
+    const wallet = ethers.Wallet.createRandom();
+    const signTypedData = vi.spyOn(wallet, 'signTypedData');
+
+    const { handles } = await client.createInputBuilder(CONTRACT, wallet.address).add64(42n).addBool(true).encrypt();
+    expect(await client.userDecrypt(handles[0].handle, CONTRACT, wallet)).toBe(42n);
+
+    const outcomes = await client.batchUserDecrypt(handles.map(({ handle }) => ({ handle, contractAddress: CONTRACT })), wallet);
+    expect(outcomes[handles[1].handle]).toEqual({ ok: true, value: true });
+    expect(signTypedData).toHaveBeenCalledTimes(1);
+  });
+
+  it('publicly decrypts with the ABI encoding and proof', async () => {
+    await client.initialize();
+    const { handles } = await client.createInputBuilder(CONTRACT, CONTRACT).add8(7).encrypt();
+    const handle = handles[0].handle;
+
+    const result = await client.publicDecryptV09([handle]);
+    expect(result.clearValues[handle]).toBe(7n);
+    expect(result.abiEncodedClearValues).toBe(ethers.AbiCoder.defaultAbiCoder().encode(['uint8'], [7]));
+    expect(result.decryptionProof).toBe('0x1234');
+  });
+
+  it('refuses a missing proof unless explicitly allowed', async () => {
+    await client.initialize();
+    const { handles } = await client.createInputBuilder(CONTRACT, CONTRACT).add8(7).encrypt();
+    instance.publicDecrypt = async (hs: string[]) => ({ clearValues: { [hs[0]]: 7n }, decryptionProof: '0x' });
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    await expect(client.publicDecryptV09([handles[0].handle])).rejects.toBeInstanceOf(ProofVerificationError);
+    await expect(client.publicDecryptV09([handles[0].handle], { unsafeMockProof: true })).resolves.toMatchObject({ decryptionProof: '0x' });
+  });
+
+  it('rejects operations in flight when disposed', async () => {
+    await client.initialize();
+    instance.publicDecrypt = () => new Promise(() => {});
+    const { handles } = await client.createInputBuilder(CONTRACT, CONTRACT).add8(1).encrypt();
+
+    const pending = client.publicDecryptV09([handles[0].handle]);
+    client.dispose();
+    await expect(pending).rejects.toBeInstanceOf(FhevmInstanceResetError);
+    expect(client.getLifecycle().phase).toBe('disposed');
+  });
+
+  it('abandons an initialization when disposed meanwhile', async () => {
+    let resolve!: (instance: any) => void;
+    vi.mocked(createMockInstance).mockReturnValueOnce(new Promise(r => { resolve = r; }) as any);
+    const ready = vi.fn();
+    client.events.on('instance-ready', ready);
+
+    const initializing = client.initialize();
+    client.dispose();
+    resolve(instance);
+
+    await expect(initializing).rejects.toBeInstanceOf(FhevmInstanceResetError);
+    expect(client.isInitialized()).toBe(false);
+    expect(ready).not.toHaveBeenCalled();
+  });
+
+  it('settles a superseded initialization with the newest instance', async () => {
+    const stale = fakeInstance();
+    let resolve!: (instance: any) => void;
+    vi.mocked(createMockInstance).mockReturnValueOnce(new Promise(r => { resolve = r; }) as any);
+    const ready = vi.fn();
+    client.events.on('instance-ready', ready);
+
+    const first = client.initialize();
+    await vi.waitFor(() => expect(createMockInstance).toHaveBeenCalledTimes(1));
+    const second = client.initialize();
+    await expect(second).resolves.toBe(instance);
+    resolve(stale);
+
+    await expect(first).resolves.toBe(instance);
+    expect(client.getInstance()).toBe(instance);
+    expect(ready).toHaveBeenCalledTimes(1);
+  });
+
+  it('cancels encryption through a signal', async () => {
+    await client.initialize();
+    const controller = new AbortController();
+    const encrypting = client.createEncryptedInput(CONTRACT, CONTRACT, 7, { signal: controller.signal });
+    controller.abort();
+
+    await expect(encrypting).rejects.toBeInstanceOf(OperationCancelledError);
+  });
+});
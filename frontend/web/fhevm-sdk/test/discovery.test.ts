@@ -0,0 +1,91 @@
+// @vitest-environment jsdom
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { Eip6963ProviderDetail, discoverWallets, fhevmStore, getDefaultClient, selectWallet } from '../src/core/index.js';
+import { USER, fakeWallet } from './helpers.js';
+
+/** Installed wallet that announces itself on every EIP-6963 request */
+function installWallet(rdns: string): Eip6963ProviderDetail & { announce(): void; uninstall(): void } {
+  const detail = { info: { uuid: rdns, name: rdns, icon: 'data:,', rdns }, provider: fakeWallet() };
+  const announce = () => window.dispatchEvent(new CustomEvent('eip6963:announceProvider', { detail }));
+  window.addEventListener('eip6963:requestProvider', announce);
+  return { ...detail, announce, uninstall: () => window.removeEventListener('eip6963:requestProvider', announce) };
+}
+
+describe('EIP-6963 wallet discovery', () => {
+  const initial = fhevmStore.getState();
+  const installed: ReturnType<typeof installWallet>[] = [];
+  const install = (rdns: string) => {
+    const wallet = installWallet(rdns);
+    installed.push(wallet);
+    return wallet;
+  };
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    installed.splice(0).forEach(wallet => wallet.uninstall());
+    fhevmStore.setState({ wallets: initial.wallets, wallet: initial.wallet });
+    getDefaultClient().setProvider(undefined);
+    localStorage.clear();
+  });
+
+  it('lists each announced wallet once until the last watcher stops', () => {
+    const metamask = install('io.metamask');
+    install('com.coinbase.wallet');
+    const stop = discoverWallets();
+    const stopAgain = discoverWallets();
+
+    metamask.announce();
+    expect(fhevmStore.getState().wallets.map(wallet => wallet.info.rdns)).toEqual(['com.coinbase.wallet', 'io.metamask']);
+
+    stop();
+    stop();
+    install('app.rabby');
+    window.dispatchEvent(new Event('eip6963:requestProvider'));
+    expect(fhevmStore.getState().wallets).toHaveLength(3);
+
+    stopAgain();
+    install('io.zerion');
+    window.dispatchEvent(new Event('eip6963:requestProvider'));
+    expect(fhevmStore.getState().wallets).toHaveLength(3);
+  });
+
+  it('routes the default client through the selected wallet and remembers it', async () => {
+    const metamask = install('io.metamask');
+    const stop = discoverWallets();
+
+    await selectWallet('io.metamask');
+    const { wallet } = fhevmStore.getState();
+    expect(wallet.provider).toBe(metamask.provider);
+    expect(wallet).toMatchObject({ rdns: 'io.metamask', address: USER, chainId: 11155111, isConnected: true });
+    expect(getDefaultClient().getConfig().provider).toBe(metamask.provider);
+    expect(localStorage.getItem('fhevm-sdk:wallet')).toBe('io.metamask');
+    await expect(selectWallet('app.rabby')).rejects.toThrow(/has not been discovered/);
+    stop();
+  });
+
+  it('selects the wallet picked on a previous visit as it announces itself', async () => {
+    localStorage.setItem('fhevm-sdk:wallet', 'io.metamask');
+    install('com.coinbase.wallet');
+    const metamask = install('io.metamask');
+    const stop = discoverWallets();
+
+    expect(fhevmStore.getState().wallet.provider).toBe(metamask.provider);
+    await vi.waitFor(() => expect(fhevmStore.getState().wallet.isConnected).toBe(true));
+    stop();
+  });
+
+  it("leaves a connector's provider in place of the remembered wallet", () => {
+    localStorage.setItem('fhevm-sdk:wallet', 'io.metamask');
+    const connector = fakeWallet();
+    fhevmStore.setState({ wallet: { ...initial.wallet, provider: connector } });
+    install('io.metamask');
+    const stop = discoverWallets();
+
+    expect(fhevmStore.getState().wallets).toHaveLength(1);
+    expect(fhevmStore.getState().wallet.provider).toBe(connector);
+    stop();
+  });
+});
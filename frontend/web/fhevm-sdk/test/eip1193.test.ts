@@ -0,0 +1,87 @@
+import { ethers } from 'ethers';
+import { describe, expect, it } from 'vitest';
+import { createEip1193Bridge } from '../src/core/index.js';
+
+function setup(withSigner = true) {
+  const provider = new ethers.JsonRpcProvider('http://127.0.0.1:8545', 31337, { staticNetwork: true });
+  const sent: [string, any[]][] = [];
+  provider.send = async (method: string, params: any[]) => {
+    sent.push([method, params]);
+    return '0xforwarded';
+  };
+  provider.getFeeData = async () => new ethers.FeeData(1n, null, null);
+  const wallet = ethers.Wallet.createRandom();
+  const bridge = createEip1193Bridge({ provider, signer: withSigner ? wallet.privateKey : undefined });
+  return { bridge, wallet, sent };
+}
+
+describe('createEip1193Bridge', () => {
+  it('needs a provider or an RPC URL', () => {
+    expect(() => createEip1193Bridge({})).toThrow(/provider or an rpcUrl/);
+  });
+
+  it('answers chain and account queries locally', async () => {
+    const { bridge, wallet } = setup();
+    expect(await bridge.request({ method: 'eth_chainId' })).toBe('0x7a69');
+    expect(await bridge.request({ method: 'net_version' })).toBe('31337');
+    expect(await bridge.request({ method: 'eth_requestAccounts' })).toEqual([wallet.address]);
+    expect(await setup(false).bridge.request({ method: 'eth_accounts' })).toEqual([]);
+  });
+
+  it('signs typed data, dropping the EIP712Domain type', async () => {
+    const { bridge, wallet } = setup();
+    const domain = { name: 'Test', chainId: 31337 };
+    const types = { Mail: [{ name: 'body', type: 'string' }] };
+    const typedData = {
+      domain,
+      types: { EIP712Domain: [{ name: 'name', type: 'string' }, { name: 'chainId', type: 'uint256' }], ...types },
+      message: { body: 'hi' },
+    };
+
+    const signature = await bridge.request({ method: 'eth_signTypedData_v4', params: [wallet.address, JSON.stringify(typedData)] });
+    expect(ethers.verifyTypedData(domain, types, { body: 'hi' }, signature)).toBe(wallet.address);
+  });
+
+  it('signs messages with personal_sign and eth_sign', async () => {
+    const { bridge, wallet } = setup();
+    const personal = await bridge.request({ method: 'personal_sign', params: ['0x1234', wallet.address] });
+    const eth = await bridge.request({ method: 'eth_sign', params: [wallet.address, '0x1234'] });
+
+    expect(ethers.verifyMessage(ethers.getBytes('0x1234'), personal)).toBe(wallet.address);
+    expect(eth).toBe(personal);
+  });
+
+  it('signs transactions without sending them', async () => {
+    const { bridge, wallet, sent } = setup();
+    const raw = await bridge.request({
+      method: 'eth_signTransaction',
+      params: [{ from: wallet.address, to: wallet.address, value: '0x1', gas: '0x5208', nonce: '0x0' }],
+    });
+
+    const tx = ethers.Transaction.from(raw);
+    expect(tx.from).toBe(wallet.address);
+    expect(tx.chainId).toBe(31337n);
+    expect(sent).toEqual([]);
+  });
+
+  it('refuses to sign for another address or without a signer', async () => {
+    const { bridge } = setup();
+    const other = ethers.Wallet.createRandom().address;
+    await expect(bridge.request({ method: 'personal_sign', params: ['0x12', other] })).rejects.toThrow(/Cannot sign for/);
+    await expect(setup(false).bridge.request({ method: 'eth_sendTransaction', params: [{}] })).rejects.toThrow(/read-only/);
+  });
+
+  it('rejects methods outside the read allowlist with code 4200', async () => {
+    const { bridge, sent } = setup();
+    for (const method of ['eth_signTypedData_v3', 'eth_sendRawTransaction', 'personal_unlockAccount', 'wallet_switchEthereumChain']) {
+      await expect(bridge.request({ method, params: [] })).rejects.toMatchObject({ code: 4200 });
+    }
+    expect(sent).toEqual([]);
+  });
+
+  it('forwards read methods to the JSON-RPC provider', async () => {
+    const { bridge, sent } = setup();
+    expect(await bridge.request({ method: 'eth_getBalance', params: ['0x00', 'latest'] })).toBe('0xforwarded');
+    expect(sent).toEqual([['eth_getBalance', ['0x00', 'latest']]]);
+  });
+});
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { EncryptedInputBuilder, MAX_INPUT_BITS, OperationCancelledError } from '../src/core/index.js';
+import { CONTRACT, USER, fakeInstance, handle } from './helpers.js';
+
+const builder = (instance: any = fakeInstance()) => new EncryptedInputBuilder(instance, CONTRACT, USER);
+
+describe('EncryptedInputBuilder', () => {
+  it('rejects invalid addresses up front', () => {
+    expect(() => new EncryptedInputBuilder(fakeInstance(), '0x12', USER)).toThrow(/contract address/);
+    expect(() => new EncryptedInputBuilder(fakeInstance(), CONTRACT, 'me')).toThrow(/user address/);
+  });
+
+  it('range-checks unsigned integers against their bit width', () => {
+    expect(() => builder().add8(255)).not.toThrow();
+    expect(() => builder().add8(256)).toThrow(RangeError);
+    expect(() => builder().add16(-1)).toThrow(RangeError);
+    expect(() => builder().add64(2n ** 64n)).toThrow(RangeError);
+    expect(() => builder().add256(2n ** 256n - 1n)).not.toThrow();
+  });
+
+  it('refuses unsafe numbers and wrong value types', () => {
+    expect(() => builder().add64(2 ** 60)).toThrow(/safe integer/);
+    expect(() => builder().add32(1.5)).toThrow(RangeError);
+    expect(() => builder().addBool(1 as any)).toThrow(TypeError);
+    expect(() => builder().addAddress('0x1234')).toThrow(/Invalid address/);
+  });
+
+  it('caps an input proof at the bit limit', () => {
+    const input = builder();
+    for (let i = 0; i < MAX_INPUT_BITS / 256; i++) input.add256(i);
+    expect(input.totalBits).toBe(MAX_INPUT_BITS);
+    expect(() => input.addBool(true)).toThrow(RangeError);
+  });
+
+  it('encrypts every value into one proof with typed handles', async () => {
+    const instance = fakeInstance();
+    const result = await builder(instance).addBool(true).add32(7).addAddress(USER.toLowerCase()).encrypt();
+
+    expect(result.handles.map(h => h.type)).toEqual(['ebool', 'euint32', 'eaddress']);
+    expect(result.handles[1].handle).toBe(handle('euint32', 2));
+    expect(result.inputProof).toBe('0x00');
+    expect(instance.inputs[0].values).toEqual([['ebool', true], ['euint32', 7n], ['eaddress', USER]]);
+  });
+
+  it('needs at least one value and honours an aborted signal', async () => {
+    await expect(builder().encrypt()).rejects.toThrow(/Nothing to encrypt/);
+
+    const controller = new AbortController();
+    controller.abort();
+    await expect(builder().add8(1).encrypt({ signal: controller.signal })).rejects.toBeInstanceOf(OperationCancelledError);
+  });
+});
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import {
+  abiEncodeClearValues,
+  chunkHandlesByBits,
+  getHandleBits,
+  getHandleFheType,
+  getHandleSolidityType,
+  InvalidHandleError,
+  isValidHandle,
+  toClearValue,
+  toSafeNumber,
+} from '../src/core/index.js';
+import { handle } from './helpers.js';
+
+describe('handles', () => {
+  it('validates the bytes32 shape', () => {
+    expect(isValidHandle(handle('euint32'))).toBe(true);
+    expect(isValidHandle('0x1234')).toBe(false);
+    expect(isValidHandle(42)).toBe(false);
+  });
+
+  it('reads the FHE type from the second-to-last byte', () => {
+    expect(getHandleFheType(handle('ebool'))).toBe('ebool');
+    expect(getHandleFheType(handle('euint64'))).toBe('euint64');
+    expect(getHandleFheType(handle('eaddress'))).toBe('eaddress');
+    expect(getHandleBits(handle('euint256'))).toBe(256);
+    expect(getHandleSolidityType(handle('euint128'))).toBe('uint128');
+  });
+
+  it('rejects unknown type discriminants', () => {
+    const unknown = '0x' + '11'.repeat(30) + '0900';
+    expect(() => getHandleFheType(unknown)).toThrow(InvalidHandleError);
+    expect(() => getHandleFheType('nope')).toThrow(InvalidHandleError);
+  });
+
+  it('converts raw relayer values to the handle type', () => {
+    expect(toClearValue(handle('ebool'), 1n)).toBe(true);
+    expect(toClearValue(handle('ebool'), false)).toBe(false);
+    expect(toClearValue(handle('euint8'), '200')).toBe(200n);
+    expect(toClearValue(handle('eaddress'), 0xabcn)).toBe('0x0000000000000000000000000000000000000aBc');
+    expect(() => toClearValue(handle('euint8'), undefined)).toThrow(/Missing clear value/);
+  });
+
+  it('chunks handles within the bit limit, keeping their order', () => {
+    const handles = [handle('euint256', 1), handle('euint256', 2), handle('euint64', 3), handle('euint256', 4)];
+    const chunks = chunkHandlesByBits(handles, h => h, 512);
+    expect(chunks).toEqual([[handles[0], handles[1]], [handles[2], handles[3]]]);
+  });
+
+  it('ABI-encodes clear values in handle order', () => {
+    const handles = [handle('ebool'), handle('euint32')];
+    const encoded = abiEncodeClearValues(handles, { [handles[0]]: true, [handles[1]]: 7n });
+    expect(encoded).toBe('0x' + '1'.padStart(64, '0') + '7'.padStart(64, '0'));
+  });
+
+  it('refuses lossy number conversion', () => {
+    expect(toSafeNumber(handle('euint32'), 5n)).toBe(5);
+    expect(() => toSafeNumber(handle('euint64'), 2n ** 60n)).toThrow(RangeError);
+    expect(() => toSafeNumber(handle('eaddress'), '0x0000000000000000000000000000000000000001')).toThrow(TypeError);
+  });
+});
@@ -0,0 +1,109 @@
+import type { FhevmInstance } from '@zama-fhe/relayer-sdk/web';
+import { vi } from 'vitest';
+import { FHE_TYPE_IDS, FheHandle, FheType } from '../src/core/index.js';
+
+const TYPE_IDS = Object.fromEntries(Object.entries(FHE_TYPE_IDS).map(([id, type]) => [type, Number(id)])) as Record<FheType, number>;
+
+/**
+ * Well-formed handle of an FHE type; `seed` makes distinct handles of the same type
+ */
+export function handle<T extends FheType>(type: T, seed = 0): FheHandle<T> {
+  const typeByte = TYPE_IDS[type].toString(16).padStart(2, '0');
+  return `0x${seed.toString(16).padStart(60, '0')}${typeByte}00` as FheHandle<T>;
+}
+
+export const CONTRACT = '0x00000000000000000000000000000000000000C0';
+export const USER = '0x00000000000000000000000000000000000000A1';
+
+const ADD_TYPES: Record<string, FheType> = {
+  addBool: 'ebool',
+  add8: 'euint8',
+  add16: 'euint16',
+  add32: 'euint32',
+  add64: 'euint64',
+  add128: 'euint128',
+  add256: 'euint256',
+  addAddress: 'eaddress',
+};
+
+/**
+ * In-memory stand-in for a relayer SDK / mock instance: handles carry a counter,
+ * decryption returns whatever was stored in `clearValues`
+ */
+export function fakeInstance() {
+  let next = 1;
+  const clearValues: Record<string, unknown> = {};
+  const inputs: { contractAddress: string; userAddress: string; values: [FheType, unknown][] }[] = [];
+
+  return {
+    clearValues,
+    inputs,
+    createEncryptedInput(contractAddress: string, userAddress: string) {
+      const values: [FheType, unknown][] = [];
+      inputs.push({ contractAddress, userAddress, values });
+      const input: Record<string, any> = {
+        encrypt: async () => {
+          const handles = values.map(([type, value]) => {
+            const h = handle(type, next++);
+            clearValues[h] = value;
+            return h;
+          });
+          return { handles, inputProof: '0x00' };
+        },
+      };
+      for (const [method, type] of Object.entries(ADD_TYPES)) {
+        input[method] = (value: unknown) => {
+          values.push([type, value]);
+          return input;
+        };
+      }
+      return input;
+    },
+    generateKeypair: () => ({ publicKey: '0xpub', privateKey: '0xpriv' }),
+    createEIP712: (publicKey: string, contractAddresses: string[], startTimestamp: string, durationDays: string) => ({
+      domain: { name: 'Decryption', version: '1', chainId: 31337, verifyingContract: CONTRACT },
+      types: {
+        UserDecryptRequestVerification: [
+          { name: 'publicKey', type: 'bytes' },
+          { name: 'contractAddresses', type: 'address[]' },
+          { name: 'startTimestamp', type: 'uint256' },
+          { name: 'durationDays', type: 'uint256' },
+        ],
+      },
+      message: { publicKey: '0x00', contractAddresses, startTimestamp, durationDays },
+    }),
+    userDecrypt: async (pairs: { handle: string }[]) =>
+      Object.fromEntries(pairs.map(({ handle }) => [handle, clearValues[handle]])),
+    publicDecrypt: async (handles: string[]) => ({
+      clearValues: Object.fromEntries(handles.map(h => [h, clearValues[h]])),
+      decryptionProof: '0x1234',
+    }),
+  };
+}
+
+export type FakeInstance = ReturnType<typeof fakeInstance>;
+
+/**
+ * The fake where the SDK expects a relayer SDK instance; it implements the methods the SDK calls
+ */
+export function asInstance(fake: FakeInstance): FhevmInstance {
+  return fake as unknown as FhevmInstance;
+}
+
+/** Injected wallet on Sepolia that lets the test emit its events */
+export function fakeWallet(account = USER) {
+  const listeners: Record<string, ((...args: any[]) => void)[]> = {};
+  const wallet = {
+    chainId: '0xaa36a7',
+    accounts: [account],
+    request: vi.fn(async ({ method }: { method: string }) => {
+      if (method === 'eth_chainId') return wallet.chainId;
+      if (method === 'eth_accounts') return wallet.accounts;
+      throw new Error(`unexpected ${method}`);
+    }),
+    on: (event: string, listener: (...args: any[]) => void) => (listeners[event] ??= []).push(listener),
+    removeListener: vi.fn(),
+    emit: (event: string, ...args: any[]) => listeners[event]?.forEach(listener => listener(...args)),
+  };
+  return wallet;
+}
@@ -0,0 +1,65 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { MemoryKeyCacheStorage, PublicKeyCache, createInstanceWithKeyCache } from '../src/core/index.js';
+
+const RELAYER_URL = 'https://relayer.test';
+const IDS = { publicKeyId: 'pk-1', publicParamsId: 'crs-1' };
+
+/** Instance exposing the key material it was created with, like the relayer SDK's */
+const instanceWith = (publicKey: Uint8Array, publicParams: Uint8Array) => ({
+  getPublicKey: () => ({ publicKeyId: IDS.publicKeyId, publicKey }),
+  getPublicParams: () => ({ publicParamsId: IDS.publicParamsId, publicParams }),
+});
+
+describe('createInstanceWithKeyCache', () => {
+  const originalFetch = globalThis.fetch;
+  let storage: MemoryKeyCacheStorage;
+  let cache: PublicKeyCache;
+
+  beforeEach(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    globalThis.fetch = vi.fn(async () => Response.json({
+      response: {
+        fhe_key_info: [{ fhe_public_key: { data_id: IDS.publicKeyId } }],
+        crs: { 2048: { data_id: IDS.publicParamsId } },
+      },
+    }));
+    storage = new MemoryKeyCacheStorage();
+    cache = new PublicKeyCache(storage);
+    await cache.save(31337, instanceWith(new Uint8Array([1]), new Uint8Array([2])));
+  });
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  it('creates the instance from cached keys', async () => {
+    const createInstance = vi.fn(async (config: any) => config);
+    const config = await createInstanceWithKeyCache(createInstance, { relayerUrl: RELAYER_URL }, cache, 31337);
+
+    expect(createInstance).toHaveBeenCalledTimes(1);
+    expect(config.publicKey).toEqual({ data: new Uint8Array([1]), id: IDS.publicKeyId });
+  });
+
+  it('keeps the cache when the relayer or provider fails', async () => {
+    const createInstance = vi.fn(async () => {
+      throw new Error('HTTP error! status: 503');
+    });
+
+    await expect(createInstanceWithKeyCache(createInstance, { relayerUrl: RELAYER_URL }, cache, 31337)).rejects.toThrow('503');
+    expect(createInstance).toHaveBeenCalledTimes(1);
+    expect(await storage.get('31337')).not.toBeNull();
+  });
+
+  it('drops rejected key material and downloads fresh keys', async () => {
+    const fresh = instanceWith(new Uint8Array([3]), new Uint8Array([4]));
+    const createInstance = vi.fn(async (config: any) => {
+      if (config.publicKey) throw new Error('Invalid public key (deserialization failed)');
+      return fresh;
+    });
+
+    await expect(createInstanceWithKeyCache(createInstance, { relayerUrl: RELAYER_URL }, cache, 31337)).resolves.toBe(fresh);
+    expect(createInstance).toHaveBeenCalledTimes(2);
+    expect((await storage.get('31337'))?.publicKey).toEqual(new Uint8Array([3]));
+  });
+});
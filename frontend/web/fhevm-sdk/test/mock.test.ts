@@ -0,0 +1,68 @@
+import { ethers } from 'ethers';
+import { MockFhevmInstance } from '@fhevm/mock-utils';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { createMockInstance, resolveNetworkConfig } from '../src/core/index.js';
+
+// The mock-utils instance itself is exercised by @fhevm/mock-utils; here only the config it gets matters
+vi.mock('@fhevm/mock-utils', () => ({
+  MockFhevmInstance: { create: vi.fn(async () => ({ mock: true })) },
+}));
+
+const METADATA = {
+  ACLAddress: '0x0000000000000000000000000000000000000AC1',
+  InputVerifierAddress: '0x0000000000000000000000000000000000000111',
+  KMSVerifierAddress: '0x0000000000000000000000000000000000000C35',
+};
+
+/** Stand-in for the Hardhat node behind every JsonRpcProvider */
+function stubNode(chainId: number, metadata: unknown = METADATA) {
+  vi.spyOn(ethers.JsonRpcProvider.prototype, 'getNetwork').mockResolvedValue(new ethers.Network('hardhat', chainId));
+  return vi.spyOn(ethers.JsonRpcProvider.prototype, 'send').mockImplementation(async (method: string) => {
+    if (method === 'fhevm_relayer_metadata' && metadata) return metadata;
+    throw new Error(`the method ${method} does not exist/is not available`);
+  });
+}
+
+describe('createMockInstance', () => {
+  const network = resolveNetworkConfig('hardhat-local');
+
+  beforeEach(() => {
+    vi.mocked(MockFhevmInstance.create).mockClear();
+  });
+
+  it('needs an RPC URL', async () => {
+    await expect(createMockInstance({ ...network, rpcUrl: undefined })).rejects.toThrow(/No rpcUrl configured/);
+  });
+
+  it('rejects a node on another chain', async () => {
+    stubNode(1);
+    await expect(createMockInstance(network)).rejects.toThrow(/is on chain 1, expected 31337/);
+    expect(MockFhevmInstance.create).not.toHaveBeenCalled();
+  });
+
+  it('rejects a node without the FHEVM mock', async () => {
+    stubNode(31337, null);
+    await expect(createMockInstance(network)).rejects.toThrow(/not a Hardhat node with the FHEVM mock/);
+    expect(MockFhevmInstance.create).not.toHaveBeenCalled();
+  });
+
+  it('builds the instance from the host contracts the node reports', async () => {
+    const send = stubNode(31337);
+    await expect(createMockInstance(network, 'http://127.0.0.1:9545')).resolves.toEqual({ mock: true });
+
+    expect(send).toHaveBeenCalledWith('fhevm_relayer_metadata', []);
+    const [provider, readProvider, config, properties] = vi.mocked(MockFhevmInstance.create).mock.calls[0] as unknown[];
+    expect(provider).toBeInstanceOf(ethers.JsonRpcProvider);
+    expect(readProvider).toBe(provider);
+    expect(config).toEqual({
+      aclContractAddress: METADATA.ACLAddress,
+      chainId: 31337,
+      gatewayChainId: network.gatewayChainId,
+      inputVerifierContractAddress: METADATA.InputVerifierAddress,
+      kmsContractAddress: METADATA.KMSVerifierAddress,
+      verifyingContractAddressDecryption: network.verifyingContractAddressDecryption,
+      verifyingContractAddressInputVerification: network.verifyingContractAddressInputVerification,
+    });
+    expect(properties).toEqual({ inputVerifierProperties: {}, kmsVerifierProperties: {} });
+  });
+});
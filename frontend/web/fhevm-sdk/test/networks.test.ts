@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { FHEVM_NETWORKS, assertProviderChainId, findNetworkPreset, resolveNetworkConfig } from '../src/core/index.js';
+
+describe('network resolution', () => {
+  it('defaults to Sepolia and returns copies of presets', () => {
+    const network = resolveNetworkConfig();
+    expect(network.chainId).toBe(11155111);
+    network.chainId = 1;
+    expect(FHEVM_NETWORKS.sepolia.chainId).toBe(11155111);
+  });
+
+  it('overrides preset fields', () => {
+    const network = resolveNetworkConfig({ preset: 'sepolia', relayerUrl: 'https://relayer.example' });
+    expect(network.relayerUrl).toBe('https://relayer.example');
+    expect(network.aclContractAddress).toBe(FHEVM_NETWORKS.sepolia.aclContractAddress);
+  });
+
+  it('validates custom networks', () => {
+    const custom = { ...FHEVM_NETWORKS['hardhat-local'], name: 'devnet', chainId: 1337 };
+    expect(resolveNetworkConfig({ preset: 'custom', ...custom }).chainId).toBe(1337);
+    expect(() => resolveNetworkConfig({ preset: 'custom', ...custom, chainId: 0 })).toThrow(/Invalid chainId/);
+    expect(() => resolveNetworkConfig({ preset: 'custom', ...custom, kmsContractAddress: '0x12' })).toThrow(/kmsContractAddress/);
+    expect(() => resolveNetworkConfig('mainnet' as any)).toThrow(/Unknown FHEVM network preset/);
+  });
+
+  it('finds presets by chain id', () => {
+    expect(findNetworkPreset(31337)).toBe('hardhat-local');
+    expect(findNetworkPreset(1)).toBeUndefined();
+  });
+
+  it('rejects a provider on another chain', async () => {
+    const provider = (chainId: number) => ({ request: async () => `0x${chainId.toString(16)}` });
+    await expect(assertProviderChainId(provider(11155111), FHEVM_NETWORKS.sepolia)).resolves.toBeUndefined();
+    await expect(assertProviderChainId(provider(1), FHEVM_NETWORKS.sepolia)).rejects.toThrow(/connected to chain 1/);
+  });
+});
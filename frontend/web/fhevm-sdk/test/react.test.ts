@@ -0,0 +1,479 @@
+// @vitest-environment jsdom
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import { act, cleanup, render, renderHook, waitFor } from '@testing-library/react';
+import { ethers } from 'ethers';
+import { ReactNode, createElement } from 'react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { AclDeniedError, ContractRevertError, FhevmClient, UserRejectedError, fhevmStore, setFhevmWallet } from '../src/core/index.js';
+import { loadRelayerSdk } from '../src/core/wasm.js';
+import { FhevmContextValue, FhevmProvider, FhevmProviderProps, useFhevmContext } from '../src/adapters/FhevmProvider.js';
+import { useContract } from '../src/adapters/useContract.js';
+import { useContractRead } from '../src/adapters/useContractRead.js';
+import { useContractWrite } from '../src/adapters/useContractWrite.js';
+import { useEncryptedValue } from '../src/adapters/useEncryptedValue.js';
+import { usePublicDecrypt, useUserDecrypt, useVerifyDecryption } from '../src/adapters/useDecrypt.js';
+import { CONTRACT, FakeInstance, USER, asInstance, fakeInstance, fakeWallet, handle } from './helpers.js';
+
+const relayer = vi.hoisted(() => ({ instance: null as FakeInstance | null }));
+
+// The browser path without WASM: createInstance hands out fake instances, the latest in `relayer`
+vi.mock('../src/core/wasm.js', async importOriginal => ({
+  ...(await importOriginal<typeof import('../src/core/wasm.js')>()),
+  loadRelayerSdk: vi.fn(async () => ({ createInstance: async () => asInstance(relayer.instance = fakeInstance()) })),
+}));
+
+const config = { network: 'sepolia', publicKeyCache: false } as const;
+
+/** Provider each initialization started on */
+function watchInitializations() {
+  const providers: unknown[] = [];
+  const initialize = FhevmClient.prototype.initialize;
+  vi.spyOn(FhevmClient.prototype, 'initialize').mockImplementation(function (this: FhevmClient) {
+    providers.push(this.getConfig().provider);
+    return initialize.call(this);
+  });
+  return providers;
+}
+
+/** Render a FhevmProvider and hand back its context */
+function renderProvider(props: FhevmProviderProps) {
+  const rendered = { context: null as FhevmContextValue | null };
+  const Probe = () => {
+    rendered.context = useFhevmContext();
+    return null;
+  };
+  const element = (next: FhevmProviderProps) => createElement(FhevmProvider, { config, ...next }, createElement(Probe));
+  const { rerender } = render(element(props));
+  return {
+    store: () => rendered.context!.store,
+    rerender: (next: FhevmProviderProps) => rerender(element(next)),
+  };
+}
+
+describe('FhevmProvider', () => {
+  const initialWallet = fhevmStore.getState().wallet;
+  let injected: ReturnType<typeof fakeWallet>;
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    injected = fakeWallet();
+    (window as any).ethereum = injected;
+  });
+
+  afterEach(() => {
+    cleanup();
+    fhevmStore.setState({ wallet: initialWallet });
+    delete (window as any).ethereum;
+  });
+
+  it("initializes once, on the connector's provider rather than window.ethereum", async () => {
+    const provider = fakeWallet();
+    const initializations = watchInitializations();
+    const { store } = renderProvider({ wallet: { address: USER, chainId: 11155111, isConnected: true, provider } });
+
+    await waitFor(() => expect(store().getState().status).toBe('ready'));
+    expect(initializations).toEqual([provider]);
+    expect(loadRelayerSdk).toHaveBeenCalledTimes(1);
+    expect(provider.request).toHaveBeenCalled();
+    expect(injected.request).not.toHaveBeenCalled();
+  });
+
+  it('initializes on the wallet picked through useWallet without a wallet prop', async () => {
+    const provider = fakeWallet();
+    setFhevmWallet({ address: USER, chainId: 11155111, isConnected: true, provider });
+    const initializations = watchInitializations();
+    const { store } = renderProvider({});
+
+    await waitFor(() => expect(store().getState().status).toBe('ready'));
+    expect(initializations).toEqual([provider]);
+    expect(loadRelayerSdk).toHaveBeenCalledTimes(1);
+    expect(injected.request).not.toHaveBeenCalled();
+  });
+
+  it('waits for a connector that is not connected yet', async () => {
+    const provider = fakeWallet();
+    const initializations = watchInitializations();
+    const { store, rerender } = renderProvider({ wallet: { isConnected: false } });
+    expect(store().getState().status).toBe('idle');
+
+    rerender({ wallet: { address: USER, chainId: 11155111, isConnected: true, provider } });
+    await waitFor(() => expect(store().getState().status).toBe('ready'));
+    expect(initializations).toEqual([provider]);
+    expect(loadRelayerSdk).toHaveBeenCalledTimes(1);
+    expect(injected.request).not.toHaveBeenCalled();
+  });
+
+  it('rebuilds on a wallet selected while the first initialization is still loading', async () => {
+    const first = fakeWallet();
+    const second = fakeWallet();
+    setFhevmWallet({ address: USER, chainId: 11155111, isConnected: true, provider: first });
+    const stale = asInstance(fakeInstance());
+    let release!: () => void;
+    vi.mocked(loadRelayerSdk).mockImplementationOnce(() => new Promise(resolve => {
+      release = () => resolve({ createInstance: async () => stale } as any);
+    }));
+    const initializations = watchInitializations();
+    const { store } = renderProvider({});
+    await waitFor(() => expect(loadRelayerSdk).toHaveBeenCalledTimes(1));
+
+    act(() => setFhevmWallet({ provider: second }));
+    await waitFor(() => expect(loadRelayerSdk).toHaveBeenCalledTimes(2));
+    release();
+
+    await waitFor(() => expect(store().getState().status).toBe('ready'));
+    expect(initializations).toEqual([first, second]);
+    expect(store().getState().instance).toBe(relayer.instance);
+    expect(store().getState().instance).not.toBe(stale);
+  });
+});
+
+const ABI = ['function balanceOf(address owner) view returns (uint256)'];
+
+/** Injected wallet on Sepolia that answers the account requests of BrowserProvider.getSigner */
+function signingWallet() {
+  const wallet = fakeWallet();
+  const answer = wallet.request.getMockImplementation()!;
+  wallet.request.mockImplementation(async args =>
+    args.method === 'eth_requestAccounts' ? wallet.accounts : answer(args));
+  return wallet;
+}
+
+describe('useContract', () => {
+  const initialWallet = fhevmStore.getState().wallet;
+  afterEach(() => {
+    cleanup();
+    fhevmStore.setState({ wallet: initialWallet });
+  });
+
+  const connect = (provider: unknown, address = USER) =>
+    act(() => fhevmStore.setState({ wallet: { ...fhevmStore.getState().wallet, address, chainId: 11155111, isConnected: true, provider } }));
+
+  it('builds the contract on the picked wallet and keeps it across renders of the same ABI', () => {
+    connect(signingWallet());
+    const { result, rerender } = renderHook(({ address }) => useContract(address, [...ABI]), { initialProps: { address: CONTRACT } });
+    const first = result.current.contract;
+
+    expect(result.current.isReady).toBe(true);
+    expect(first?.target).toBe(CONTRACT);
+    rerender({ address: CONTRACT });
+    expect(result.current.contract).toBe(first);
+
+    rerender({ address: '' });
+    expect(result.current.isReady).toBe(false);
+    expect(result.current.contract).toBeNull();
+  });
+
+  it('connects a typechain factory', () => {
+    connect(signingWallet());
+    const typed = { typed: true } as unknown as ethers.BaseContract;
+    const factory = { connect: vi.fn(() => typed) };
+    const { result } = renderHook(() => useContract(factory, CONTRACT));
+
+    expect(result.current.contract).toBe(typed);
+    expect(factory.connect).toHaveBeenCalledWith(CONTRACT, expect.any(ethers.BrowserProvider));
+  });
+
+  it('asks for the signer once and again after an account switch', async () => {
+    const wallet = signingWallet();
+    connect(wallet);
+    const { result } = renderHook(() => useContract(CONTRACT, ABI));
+    const accountRequests = () => wallet.request.mock.calls.filter(([{ method }]) => method === 'eth_accounts').length;
+
+    const signed = await result.current.write();
+    expect(await result.current.write()).toBe(signed);
+    expect(await (signed.runner as ethers.Signer).getAddress()).toBe(ethers.getAddress(USER));
+    const asked = accountRequests();
+
+    const other = '0x00000000000000000000000000000000000000B2';
+    wallet.accounts = [other];
+    connect(wallet, other);
+    const resigned = await result.current.write();
+    expect(resigned).not.toBe(signed);
+    expect(await (resigned.runner as ethers.Signer).getAddress()).toBe(ethers.getAddress(other));
+    expect(accountRequests()).toBeGreaterThan(asked);
+  });
+
+  it('lets a rejected signer request be retried', async () => {
+    const wallet = signingWallet();
+    connect(wallet);
+    const { result } = renderHook(() => useContract(CONTRACT, ABI));
+
+    const answer = wallet.request.getMockImplementation()!;
+    let reject = true;
+    wallet.request.mockImplementation(async args => {
+      if (args.method !== 'eth_accounts' || !reject) return answer(args);
+      reject = false;
+      throw Object.assign(new Error('User rejected the request'), { code: 4001 });
+    });
+    await expect(result.current.write()).rejects.toBeInstanceOf(UserRejectedError);
+    expect((await result.current.write()).runner).toBeInstanceOf(ethers.JsonRpcSigner);
+  });
+});
+
+const VAULT = new ethers.Interface([
+  'function balanceOf(address owner) view returns (uint256)',
+  'function deposit(uint256 amount)',
+  'event Deposited(address indexed owner, uint256 amount)',
+  'error NotOwner(address caller)',
+]);
+
+/** Fresh query cache per test, without retries */
+function queryWrapper() {
+  const client = new QueryClient({ defaultOptions: { queries: { retry: false } } });
+  return ({ children }: { children: ReactNode }) => createElement(QueryClientProvider, { client }, children);
+}
+
+/** Vault whose balanceOf answers from `balance`, through a runner that counts the eth_calls */
+function readableVault(balance = { value: 5n }) {
+  const runner = { call: vi.fn(async () => VAULT.encodeFunctionResult('balanceOf', [balance.value])) };
+  return { contract: new ethers.Contract(CONTRACT, VAULT, runner), runner, balance };
+}
+
+describe('useContractRead', () => {
+  const initialWallet = fhevmStore.getState().wallet;
+  afterEach(() => {
+    cleanup();
+    fhevmStore.setState({ wallet: initialWallet });
+  });
+
+  it('shares one cached read between components and reads again on another chain', async () => {
+    fhevmStore.setState({ wallet: { ...initialWallet, chainId: 11155111 } });
+    const { contract, runner } = readableVault();
+    const read = { contract, functionName: 'balanceOf', args: [USER] };
+    const { result } = renderHook(() => [useContractRead(read), useContractRead(read)], { wrapper: queryWrapper() });
+
+    await waitFor(() => expect(result.current[0].data).toBe(5n));
+    expect(result.current[1].data).toBe(5n);
+    expect(runner.call).toHaveBeenCalledTimes(1);
+
+    act(() => fhevmStore.setState({ wallet: { ...fhevmStore.getState().wallet, chainId: 31337 } }));
+    await waitFor(() => expect(runner.call).toHaveBeenCalledTimes(2));
+  });
+
+  it('waits for a contract', () => {
+    const { result } = renderHook(() => useContractRead({ contract: null, functionName: 'balanceOf', args: [USER] }), { wrapper: queryWrapper() });
+    expect(result.current.fetchStatus).toBe('idle');
+    expect(result.current.data).toBeUndefined();
+  });
+});
+
+describe('useContractWrite', () => {
+  afterEach(() => {
+    cleanup();
+  });
+
+  /** Vault whose deposit transactions are mined when the test calls `mine` */
+  function writableVault() {
+    let mine!: () => void;
+    const receipt = { logs: [{ address: CONTRACT, ...VAULT.encodeEventLog('Deposited', [USER, 3n]) }] };
+    const send = vi.fn(async () => ({
+      hash: '0xfeed',
+      wait: () => new Promise(resolve => { mine = () => resolve(receipt); }),
+    }));
+    const contract = { getAddress: async () => CONTRACT, interface: VAULT, getFunction: () => send } as unknown as ethers.BaseContract;
+    return { contract, send, mine: () => mine() };
+  }
+
+  it('goes from signing to pending to confirmed, then refetches the contract\'s reads', async () => {
+    const reads = readableVault();
+    const vault = writableVault();
+    const onConfirmed = vi.fn();
+    const { result } = renderHook(() => ({
+      balance: useContractRead({ contract: reads.contract, functionName: 'balanceOf', args: [USER] }),
+      deposit: useContractWrite({ contract: async () => vault.contract, functionName: 'deposit', onConfirmed }),
+    }), { wrapper: queryWrapper() });
+    await waitFor(() => expect(result.current.balance.data).toBe(5n));
+    expect(result.current.deposit.status).toBe('idle');
+
+    let written!: Promise<unknown>;
+    act(() => {
+      written = result.current.deposit.write(3n);
+    });
+    await waitFor(() => expect(result.current.deposit.status).toBe('pending'));
+    expect(result.current.deposit.hash).toBe('0xfeed');
+    expect(vault.send).toHaveBeenCalledWith(3n);
+
+    reads.balance.value = 8n;
+    await act(async () => {
+      vault.mine();
+      await written;
+    });
+    await waitFor(() => expect(result.current.deposit.status).toBe('confirmed'));
+    expect(result.current.deposit.events.map(event => [event.name, event.args.amount])).toEqual([['Deposited', 3n]]);
+    expect(onConfirmed).toHaveBeenCalledWith(expect.objectContaining({ hash: '0xfeed' }));
+    await waitFor(() => expect(result.current.balance.data).toBe(8n));
+  });
+
+  it('fails with the decoded custom error of a revert', async () => {
+    const vault = writableVault();
+    vault.send.mockRejectedValueOnce(Object.assign(new Error('execution reverted'), {
+      code: 'CALL_EXCEPTION',
+      data: VAULT.encodeErrorResult('NotOwner', [USER]),
+    }));
+    const { result } = renderHook(() => useContractWrite({ contract: vault.contract, functionName: 'deposit' }), { wrapper: queryWrapper() });
+
+    let failure: unknown;
+    await act(() => result.current.write(3n).catch(err => { failure = err; }));
+    expect(failure).toBeInstanceOf(ContractRevertError);
+    expect((failure as ContractRevertError).reason).toMatch(/^NotOwner\(/);
+    await waitFor(() => expect(result.current.status).toBe('failed'));
+  });
+
+  it('fails without a contract', async () => {
+    const { result } = renderHook(() => useContractWrite({ contract: async () => null, functionName: 'deposit' }), { wrapper: queryWrapper() });
+    await act(() => expect(result.current.write()).rejects.toThrow('Contract is not ready'));
+    await waitFor(() => expect(result.current.status).toBe('failed'));
+  });
+});
+
+/** Hooks rendered under a FhevmProvider connected to an injected wallet on Sepolia */
+function providerWrapper() {
+  const wallet = { address: USER, chainId: 11155111, isConnected: true, provider: fakeWallet() };
+  return ({ children }: { children: ReactNode }) => createElement(FhevmProvider, { config, wallet }, children);
+}
+
+describe('useEncryptedValue', () => {
+  // createRandom() trips over jsdom's Buffer; a fixed key does not need it
+  const signer = new ethers.Wallet(ethers.id('decryptor'));
+  const secret = handle('euint64', 1);
+
+  beforeEach(() => {
+    relayer.instance = null;
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    cleanup();
+  });
+
+  /** Render the hook and wait for the provider's instance, seeded with the handle's clear value */
+  async function renderValue(mode: 'user' | 'public', initial = secret) {
+    const rendered = renderHook(({ value }) => useEncryptedValue(value, CONTRACT, { mode, signer }), {
+      initialProps: { value: initial },
+      wrapper: providerWrapper(),
+    });
+    await waitFor(() => expect(relayer.instance).not.toBeNull());
+    relayer.instance!.clearValues[secret] = 42n;
+    return rendered;
+  }
+
+  it('reveals a user-decrypted value, hides it, and reveals it again from the cache', async () => {
+    const { result } = await renderValue('user');
+    const userDecrypt = vi.spyOn(relayer.instance!, 'userDecrypt');
+    expect(result.current.status).toBe('hidden');
+
+    await act(() => result.current.reveal());
+    expect(result.current.status).toBe('revealed');
+    expect(result.current.value).toBe(42n);
+
+    act(() => result.current.hide());
+    expect(result.current.status).toBe('hidden');
+    expect(result.current.value).toBeNull();
+
+    await act(() => result.current.reveal());
+    expect(result.current.value).toBe(42n);
+    expect(userDecrypt).toHaveBeenCalledTimes(1);
+  });
+
+  it('publicly decrypts in public mode, without a signature', async () => {
+    const { result } = await renderValue('public');
+    const signTypedData = vi.spyOn(signer, 'signTypedData');
+
+    await act(() => result.current.reveal());
+    expect(result.current.value).toBe(42n);
+    expect(signTypedData).not.toHaveBeenCalled();
+  });
+
+  it('starts hidden again for a new handle', async () => {
+    const { result, rerender } = await renderValue('user');
+    await act(() => result.current.reveal());
+
+    rerender({ value: handle('euint64', 2) });
+    expect(result.current.status).toBe('hidden');
+    expect(result.current.value).toBeNull();
+  });
+
+  it('reports a denied decryption', async () => {
+    const { result } = await renderValue('user');
+    vi.spyOn(relayer.instance!, 'userDecrypt').mockRejectedValue(new Error('User is not authorized to user decrypt handle'));
+
+    await act(() => expect(result.current.reveal()).rejects.toBeInstanceOf(AclDeniedError));
+    expect(result.current.status).toBe('error');
+    expect(result.current.error).toMatch(/not authorized/);
+  });
+});
+
+describe('useUserDecrypt and usePublicDecrypt', () => {
+  const signer = new ethers.Wallet(ethers.id('decryptor'));
+  const secret = handle('euint64', 1);
+  const flag = handle('ebool', 2);
+
+  beforeEach(() => {
+    relayer.instance = null;
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    cleanup();
+  });
+
+  /** Render the hooks under a FhevmProvider whose instance knows the clear values */
+  async function renderDecrypt() {
+    const rendered = renderHook(() => ({ user: useUserDecrypt(), public: usePublicDecrypt(), context: useFhevmContext()! }), {
+      wrapper: providerWrapper(),
+    });
+    await waitFor(() => expect(relayer.instance).not.toBeNull());
+    Object.assign(relayer.instance!.clearValues, { [secret]: 42n, [flag]: true });
+    return rendered;
+  }
+
+  it('user-decrypts once per account and handle', async () => {
+    const { result } = await renderDecrypt();
+    const userDecrypt = vi.spyOn(relayer.instance!, 'userDecrypt');
+
+    await act(() => result.current.user.decrypt(secret, CONTRACT, { signer }));
+    expect(result.current.user.status).toBe('success');
+    expect(result.current.user.value).toBe(42n);
+
+    await act(() => result.current.user.decrypt(secret, CONTRACT, { signer }));
+    expect(userDecrypt).toHaveBeenCalledTimes(1);
+  });
+
+  it('publicly decrypts several handles with their proof', async () => {
+    const { result } = await renderDecrypt();
+
+    await act(() => result.current.public.decrypt([secret, flag]));
+    expect(result.current.public.status).toBe('success');
+    expect(result.current.public.result?.clearValues).toEqual({ [secret]: 42n, [flag]: true });
+    expect(result.current.public.result?.decryptionProof).toBe('0x1234');
+  });
+
+  it("records a failed public decryption in the provider's store", async () => {
+    const { result } = await renderDecrypt();
+    vi.spyOn(relayer.instance!, 'publicDecrypt').mockRejectedValue(new Error('Handle is not allowed for public decryption'));
+
+    await act(() => expect(result.current.public.decrypt([secret])).rejects.toBeInstanceOf(AclDeniedError));
+    expect(result.current.public.status).toBe('error');
+    expect(result.current.public.error).toBeInstanceOf(AclDeniedError);
+    expect(result.current.context.store.getState().errors.decrypt).toMatch(/not allowed/);
+    expect(fhevmStore.getState().errors.decrypt).toBe('');
+  });
+});
+
+describe('useVerifyDecryption', () => {
+  afterEach(() => {
+    cleanup();
+  });
+
+  it("calls the contract function with its arguments, then the decryption's clear values and proof", async () => {
+    const receipt = { logs: [] };
+    const send = vi.fn(async () => ({ hash: '0xfeed', wait: async () => receipt }));
+    const contract = { getAddress: async () => CONTRACT, interface: VAULT, getFunction: vi.fn(() => send) } as unknown as ethers.BaseContract;
+    const { result } = renderHook(() => useVerifyDecryption({ contract, functionName: 'verify' }), { wrapper: queryWrapper() });
+
+    await act(() => result.current.verify({ abiEncodedClearValues: '0xaa', decryptionProof: '0xbb' }, 7n));
+    expect(contract.getFunction).toHaveBeenCalledWith('verify');
+    expect(send).toHaveBeenCalledWith(7n, '0xaa', '0xbb');
+    await waitFor(() => expect(result.current.status).toBe('confirmed'));
+  });
+});
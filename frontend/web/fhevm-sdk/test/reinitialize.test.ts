@@ -0,0 +1,57 @@
+// @vitest-environment jsdom
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { FhevmClient, FhevmPhase } from '../src/core/index.js';
+import { asInstance, fakeInstance, fakeWallet } from './helpers.js';
+
+// The browser path without WASM: createInstance hands out fake instances
+vi.mock('../src/core/wasm.js', async importOriginal => ({
+  ...(await importOriginal<typeof import('../src/core/wasm.js')>()),
+  loadRelayerSdk: vi.fn(async () => ({ createInstance: async () => asInstance(fakeInstance()) })),
+}));
+
+describe('FhevmClient wallet events', () => {
+  let wallet: ReturnType<typeof fakeWallet>;
+  let client: FhevmClient;
+  let phases: FhevmPhase[];
+
+  beforeEach(async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    wallet = fakeWallet();
+    client = new FhevmClient({ network: 'sepolia', provider: wallet, publicKeyCache: false });
+    await client.initialize();
+    phases = [];
+    client.events.on('*', event => phases.push(event.type));
+  });
+
+  it('ignores chainChanged and accountsChanged that repeat the current chain and account', async () => {
+    const instance = client.getInstance();
+    wallet.emit('chainChanged', '0xaa36a7');
+    wallet.emit('accountsChanged', ['0x00000000000000000000000000000000000000a1']);
+
+    expect(phases).toEqual([]);
+    expect(client.getInstance()).toBe(instance);
+  });
+
+  it('rebuilds the instance once when the account really changes', async () => {
+    const instance = client.getInstance();
+    wallet.accounts = ['0x00000000000000000000000000000000000000B2'];
+    wallet.emit('accountsChanged', wallet.accounts);
+    wallet.emit('accountsChanged', wallet.accounts);
+
+    await vi.waitFor(() => expect(client.isInitialized()).toBe(true));
+    expect(phases.filter(phase => phase === 'reinitializing')).toHaveLength(1);
+    expect(client.getInstance()).not.toBe(instance);
+  });
+
+  it('rebuilds after a switch back to the configured chain', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    wallet.chainId = '0x1';
+    wallet.emit('chainChanged', '0x1');
+    await vi.waitFor(() => expect(phases).toContain('error'));
+
+    wallet.chainId = '0xaa36a7';
+    wallet.emit('chainChanged', '0xaa36a7');
+    await vi.waitFor(() => expect(client.isInitialized()).toBe(true));
+    expect(phases.filter(phase => phase === 'reinitializing')).toHaveLength(2);
+  });
+});
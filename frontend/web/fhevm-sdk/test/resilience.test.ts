@@ -0,0 +1,102 @@
+import { describe, expect, it, vi } from 'vitest';
+import { ContractRevertError, OperationCancelledError, RelayerGuard, RelayerUnavailableError, withAbortSignal } from '../src/core/index.js';
+
+const networkError = () => Promise.reject(new Error('fetch failed'));
+const noDelay = { baseDelayMs: 0, jitter: false };
+
+describe('RelayerGuard', () => {
+  it('retries transient failures with backoff', async () => {
+    const guard = new RelayerGuard({ retry: { retries: 2, ...noDelay } });
+    const fn = vi.fn().mockImplementationOnce(networkError).mockResolvedValue('ok');
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    await expect(guard.run('publicDecrypt', fn)).resolves.toBe('ok');
+    expect(fn).toHaveBeenCalledTimes(2);
+    expect(guard.circuitState).toBe('closed');
+  });
+
+  it('fails immediately on non-transient errors', async () => {
+    const guard = new RelayerGuard({ retry: { retries: 3, ...noDelay } });
+    const fn = vi.fn(() => Promise.reject(new Error('execution reverted')));
+
+    await expect(guard.run('userDecrypt', fn)).rejects.toBeInstanceOf(ContractRevertError);
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
+  it('opens the circuit after consecutive failures, then lets one trial through', async () => {
+    const guard = new RelayerGuard({ retry: { retries: 0 }, circuitBreaker: { failureThreshold: 2, resetTimeoutMs: 10 } });
+    await expect(guard.run('publicDecrypt', networkError)).rejects.toBeInstanceOf(RelayerUnavailableError);
+    await expect(guard.run('publicDecrypt', networkError)).rejects.toBeInstanceOf(RelayerUnavailableError);
+    expect(guard.circuitState).toBe('open');
+
+    const fn = vi.fn(async () => 'ok');
+    await expect(guard.run('publicDecrypt', fn)).rejects.toThrow(/circuit is open/);
+    expect(fn).not.toHaveBeenCalled();
+
+    await new Promise(resolve => setTimeout(resolve, 15));
+    expect(guard.circuitState).toBe('half-open');
+
+    let settle!: (value: string) => void;
+    const trial = guard.run('publicDecrypt', () => new Promise<string>(resolve => { settle = resolve; }));
+    await expect(guard.run('publicDecrypt', fn)).rejects.toThrow(/trial request is in flight/);
+    settle('ok');
+    await expect(trial).resolves.toBe('ok');
+    expect(guard.circuitState).toBe('closed');
+  });
+
+  it('aborts timed-out attempts and does not retry encryption timeouts', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const guard = new RelayerGuard({ retry: { retries: 2, ...noDelay }, timeouts: { encrypt: 10, userDecrypt: 10 } });
+    const aborted: AbortSignal[] = [];
+    const hang = (signal: AbortSignal) => {
+      aborted.push(signal);
+      return new Promise<never>(() => {});
+    };
+
+    await expect(guard.run('encrypt', hang)).rejects.toThrow(/encrypt timed out/);
+    expect(aborted).toHaveLength(1);
+    expect(aborted[0].aborted).toBe(true);
+
+    aborted.length = 0;
+    await expect(guard.run('userDecrypt', hang)).rejects.toThrow(/userDecrypt timed out/);
+    expect(aborted).toHaveLength(3);
+  });
+
+  it('stops retrying when the caller aborts, without counting it against the relayer', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const guard = new RelayerGuard({ retry: { retries: 3, baseDelayMs: 60_000, jitter: false }, circuitBreaker: { failureThreshold: 2 } });
+    const controller = new AbortController();
+    const fn = vi.fn(networkError);
+
+    const run = guard.run('publicDecrypt', fn, { signal: controller.signal });
+    await vi.waitFor(() => expect(fn).toHaveBeenCalledTimes(1));
+    // Aborts during the 60 s backoff
+    controller.abort();
+    await expect(run).rejects.toBeInstanceOf(OperationCancelledError);
+    expect(fn).toHaveBeenCalledTimes(1);
+
+    const attempts: AbortSignal[] = [];
+    const cancelled = new AbortController();
+    const pending = guard.run('publicDecrypt', signal => {
+      attempts.push(signal);
+      return new Promise<never>((_, reject) => signal.addEventListener('abort', () => reject(new Error('fetch failed'))));
+    }, { signal: cancelled.signal });
+    cancelled.abort();
+    await expect(pending).rejects.toBeInstanceOf(OperationCancelledError);
+    expect(attempts[0].aborted).toBe(true);
+
+    await expect(guard.run('publicDecrypt', fn, { signal: cancelled.signal })).rejects.toBeInstanceOf(OperationCancelledError);
+    expect(fn).toHaveBeenCalledTimes(1);
+    // One transient failure before the first abort; the aborted attempt is not a second one
+    expect(guard.circuitState).toBe('closed');
+  });
+});
+
+describe('withAbortSignal', () => {
+  it('rejects with OperationCancelledError when the signal aborts', async () => {
+    const controller = new AbortController();
+    const pending = withAbortSignal(new Promise(() => {}), controller.signal);
+    controller.abort();
+    await expect(pending).rejects.toBeInstanceOf(OperationCancelledError);
+  });
+});
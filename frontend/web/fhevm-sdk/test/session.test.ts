@@ -0,0 +1,132 @@
+import 'fake-indexeddb/auto';
+import { ethers } from 'ethers';
+import { describe, expect, it, vi } from 'vitest';
+import {
+  DecryptionSession,
+  DecryptionSessionData,
+  DecryptionSessionManager,
+  DecryptionSessionStorage,
+  FhevmNotInitializedError,
+  IndexedDBSessionStorage,
+  MemorySessionStorage,
+  UserRejectedError,
+} from '../src/core/index.js';
+import { CONTRACT, fakeInstance } from './helpers.js';
+
+const OTHER = '0x00000000000000000000000000000000000000C1';
+
+const sessionData = (overrides: Partial<DecryptionSessionData> = {}): DecryptionSessionData => ({
+  chainId: 31337,
+  userAddress: '0x00000000000000000000000000000000000000a1',
+  publicKey: '0xpub',
+  privateKey: '0xpriv',
+  signature: '0xsig',
+  contractAddresses: [CONTRACT.toLowerCase()],
+  startTimestamp: Math.floor(Date.now() / 1000),
+  durationDays: 1,
+  ...overrides,
+});
+
+function setup() {
+  const wallet = ethers.Wallet.createRandom();
+  const signTypedData = vi.spyOn(wallet, 'signTypedData');
+  const storage = new MemorySessionStorage();
+  const manager = new DecryptionSessionManager(() => fakeInstance(), 31337, { storage });
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  return { wallet, signTypedData, storage, manager };
+}
+
+describe('DecryptionSession', () => {
+  it('checksums addresses and checks coverage', () => {
+    const session = new DecryptionSession(sessionData());
+    expect(session.contractAddresses).toEqual([CONTRACT]);
+    expect(session.covers([CONTRACT.toLowerCase()])).toBe(true);
+    expect(session.covers([CONTRACT, OTHER])).toBe(false);
+  });
+
+  it('expires a minute before the deadline', () => {
+    const session = new DecryptionSession(sessionData({ startTimestamp: 1000, durationDays: 1 }));
+    expect(session.expiresAt).toBe(1000 + 86400);
+    expect(session.isExpired(1000 + 86400 - 61)).toBe(false);
+    expect(session.isExpired(1000 + 86400 - 60)).toBe(true);
+  });
+});
+
+describe('DecryptionSessionManager', () => {
+  it('signs once and reuses the stored session', async () => {
+    const { wallet, signTypedData, manager } = setup();
+    const first = await manager.getSession(wallet, [CONTRACT]);
+    const second = await manager.getSession(wallet, [CONTRACT]);
+
+    expect(signTypedData).toHaveBeenCalledTimes(1);
+    expect(second.toJSON()).toEqual(first.toJSON());
+    expect(first.userAddress).toBe(wallet.address);
+  });
+
+  it('shares one signature between concurrent callers', async () => {
+    const { wallet, signTypedData, manager } = setup();
+    const [a, b] = await Promise.all([manager.getSession(wallet, [CONTRACT]), manager.getSession(wallet, [CONTRACT])]);
+
+    expect(signTypedData).toHaveBeenCalledTimes(1);
+    expect(a).toBe(b);
+  });
+
+  it('signs again for new contracts, keeping the previous ones', async () => {
+    const { wallet, signTypedData, manager } = setup();
+    await manager.getSession(wallet, [CONTRACT]);
+    const session = await manager.getSession(wallet, [OTHER]);
+
+    expect(signTypedData).toHaveBeenCalledTimes(2);
+    expect(session.covers([CONTRACT, OTHER])).toBe(true);
+  });
+
+  it('drops expired sessions and revokes on request', async () => {
+    const { wallet, signTypedData, storage, manager } = setup();
+    const key = `31337:${wallet.address}`;
+    await storage.set(key, sessionData({ userAddress: wallet.address, startTimestamp: 0 }));
+
+    expect(await manager.load(wallet.address)).toBeNull();
+    expect(await storage.get(key)).toBeNull();
+
+    await manager.getSession(wallet, [CONTRACT]);
+    await manager.revoke(wallet.address);
+    expect(await manager.load(wallet.address)).toBeNull();
+    expect(signTypedData).toHaveBeenCalledTimes(1);
+  });
+
+  it('reports a declined signature as UserRejectedError', async () => {
+    const { wallet, signTypedData, manager } = setup();
+    signTypedData.mockRejectedValueOnce(Object.assign(new Error('user rejected'), { code: 'ACTION_REJECTED' }));
+    await expect(manager.getSession(wallet, [CONTRACT])).rejects.toBeInstanceOf(UserRejectedError);
+  });
+
+  it('needs an instance', async () => {
+    const manager = new DecryptionSessionManager(() => null, 31337);
+    await expect(manager.create(ethers.Wallet.createRandom(), [CONTRACT])).rejects.toBeInstanceOf(FhevmNotInitializedError);
+  });
+});
+
+describe('session storages', () => {
+  const storages: [string, () => DecryptionSessionStorage][] = [
+    ['memory', () => new MemorySessionStorage()],
+    ['IndexedDB', () => new IndexedDBSessionStorage('fhevm-sdk-test')],
+  ];
+
+  it.each(storages)('%s storage round-trips sessions', async (_, create) => {
+    const storage = create();
+    const data = sessionData();
+    expect(await storage.get('31337:a')).toBeNull();
+
+    await storage.set('31337:a', data);
+    expect(await storage.get('31337:a')).toEqual(data);
+
+    await storage.remove('31337:a');
+    expect(await storage.get('31337:a')).toBeNull();
+  });
+
+  it('IndexedDB storage survives a new instance', async () => {
+    const data = sessionData();
+    await new IndexedDBSessionStorage('fhevm-sdk-persist').set('k', data);
+    expect(await new IndexedDBSessionStorage('fhevm-sdk-persist').get('k')).toEqual(data);
+  });
+});
@@ -0,0 +1,118 @@
+import type { FhevmInstance } from '@zama-fhe/relayer-sdk/web';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  FhevmClient,
+  createFhevmStore,
+  decryptHandle,
+  decryptedKey,
+  fhevmStore,
+  followFhevmClient,
+  initializeFhevm,
+  reinitializeFhevm,
+  setFhevmWallet,
+} from '../src/core/index.js';
+import { createMockInstance } from '../src/core/mock.js';
+import { USER, asInstance, fakeInstance, handle } from './helpers.js';
+
+const mock = vi.hoisted(() => ({ instance: null as FhevmInstance | null }));
+
+// Stands in for the Hardhat FHEVM mock node
+vi.mock('../src/core/mock.js', () => ({
+  createMockInstance: vi.fn(async () => mock.instance),
+}));
+
+describe('per-client stores', () => {
+  beforeEach(() => {
+    mock.instance = asInstance(fakeInstance());
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  it('follows its own client without touching the default store', async () => {
+    const client = new FhevmClient({ mode: 'mock' });
+    const store = createFhevmStore(client);
+    const unfollow = followFhevmClient(store);
+
+    await initializeFhevm(undefined, store);
+    expect(store.getState().status).toBe('ready');
+    expect(store.getState().instance).toBe(mock.instance);
+    expect(fhevmStore.getState().status).toBe('idle');
+
+    unfollow();
+    client.dispose();
+    expect(store.getState().status).toBe('ready');
+  });
+
+  it('records a failed initialization so it can be retried', async () => {
+    const store = createFhevmStore(new FhevmClient({ mode: 'mock' }));
+    followFhevmClient(store);
+    vi.mocked(createMockInstance).mockRejectedValueOnce(new Error('node offline'));
+
+    await expect(initializeFhevm(undefined, store)).rejects.toThrow('node offline');
+    expect(store.getState().status).toBe('error');
+    expect(store.getState().errors.initialize).toContain('node offline');
+
+    await initializeFhevm(undefined, store);
+    expect(store.getState().status).toBe('ready');
+    expect(store.getState().errors.initialize).toBe('');
+  });
+
+  it('keeps decrypted values per store', async () => {
+    const first = createFhevmStore(new FhevmClient({ mode: 'mock' }));
+    const second = createFhevmStore(new FhevmClient({ mode: 'mock' }));
+    const value = handle('euint64', 1);
+
+    await decryptHandle(value, async () => 7n, { mode: 'public' }, first);
+    expect(first.getState().decrypted[decryptedKey(value, { mode: 'public' })]).toBe(7n);
+    expect(second.getState().decrypted).toEqual({});
+
+    setFhevmWallet({ address: USER }, first);
+    expect(first.getState().decrypted).toEqual({});
+  });
+
+  it('does not share user decryptions across accounts or with public ones', async () => {
+    const store = createFhevmStore(new FhevmClient({ mode: 'mock' }));
+    const value = handle('euint64', 2);
+    const other = '0x00000000000000000000000000000000000000B2';
+
+    await decryptHandle(value, async () => 1n, { mode: 'user', account: USER }, store);
+    const decrypt = vi.fn(async () => 2n);
+    await expect(decryptHandle(value, decrypt, { mode: 'user', account: other }, store)).resolves.toBe(2n);
+    await expect(decryptHandle(value, async () => 3n, { mode: 'public' }, store)).resolves.toBe(3n);
+    await expect(decryptHandle(value, decrypt, { mode: 'user', account: USER.toLowerCase() }, store)).resolves.toBe(1n);
+    expect(decrypt).toHaveBeenCalledTimes(1);
+  });
+
+  it('starts a fresh initialization on rebuild instead of sharing the one in flight', async () => {
+    const client = new FhevmClient({ mode: 'mock' });
+    const store = createFhevmStore(client);
+    followFhevmClient(store);
+    const stale = fakeInstance();
+    let release!: () => void;
+    vi.mocked(createMockInstance).mockImplementationOnce(() => new Promise(resolve => {
+      release = () => resolve(stale as any);
+    }));
+
+    const first = initializeFhevm(undefined, store);
+    await vi.waitFor(() => expect(createMockInstance).toHaveBeenCalledTimes(1));
+    const second = reinitializeFhevm(store);
+    expect(second).not.toBe(first);
+    release();
+
+    await expect(second).resolves.toBe(mock.instance);
+    await expect(first).resolves.toBe(mock.instance);
+    expect(createMockInstance).toHaveBeenCalledTimes(2);
+    expect(store.getState().instance).toBe(mock.instance);
+  });
+
+  it('has nothing to rebuild before the first initialization', async () => {
+    const store = createFhevmStore(new FhevmClient({ mode: 'mock' }));
+    await expect(reinitializeFhevm(store)).resolves.toBeNull();
+    expect(createMockInstance).not.toHaveBeenCalled();
+  });
+
+  it('rejects options for a client store', () => {
+    const store = createFhevmStore(new FhevmClient({ mode: 'mock' }));
+    expect(() => initializeFhevm({ mode: 'mock' }, store)).toThrow('createFhevmStore');
+  });
+});
@@ -0,0 +1,61 @@
+import { effectScope, nextTick, ref } from 'vue';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { fhevmStore } from '../src/core/index.js';
+import { useContract, useVerifyDecryption } from '../src/adapters/vue.js';
+import { CONTRACT } from './helpers.js';
+
+const ABI = ['function verify(uint256 id, bytes cleartexts, bytes proof)'];
+const eip1193 = { request: vi.fn(async () => '0x7a69'), on: () => {}, removeListener: () => {} };
+
+describe('Vue composables', () => {
+  const initial = fhevmStore.getState().wallet;
+  afterEach(() => {
+    fhevmStore.setState({ wallet: initial });
+  });
+
+  it('useContract follows the address and resets without one', async () => {
+    fhevmStore.setState({ wallet: { ...initial, provider: eip1193 } });
+    const address = ref(CONTRACT);
+    const scope = effectScope();
+    const { contract, isReady } = scope.run(() => useContract(address, ABI))!;
+
+    expect(isReady.value).toBe(true);
+    expect(contract.value?.target).toBe(CONTRACT);
+
+    address.value = '';
+    await nextTick();
+    expect(isReady.value).toBe(false);
+    expect(contract.value).toBeNull();
+    scope.stop();
+  });
+
+  it('useContract rebuilds the contract when the chain changes', async () => {
+    fhevmStore.setState({ wallet: { ...initial, provider: eip1193, chainId: 31337 } });
+    const scope = effectScope();
+    const { contract } = scope.run(() => useContract(CONTRACT, ABI))!;
+    const first = contract.value;
+
+    fhevmStore.setState({ wallet: { ...fhevmStore.getState().wallet, chainId: 11155111 } });
+    await nextTick();
+    expect(contract.value).not.toBe(first);
+
+    const second = contract.value;
+    fhevmStore.setState({ pending: { encrypt: 1, decrypt: 0 } });
+    await nextTick();
+    expect(contract.value).toBe(second);
+    fhevmStore.setState({ pending: { encrypt: 0, decrypt: 0 } });
+    scope.stop();
+  });
+
+  it('useVerifyDecryption appends the decryption to the call arguments', async () => {
+    const wait = vi.fn(async () => ({ status: 1 }));
+    const call = vi.fn(async (..._args: unknown[]) => ({ hash: '0xabc', wait }));
+    const contract = { runner: { sendTransaction: () => {} }, interface: undefined, getFunction: () => call } as any;
+    const { verify, status, hash } = useVerifyDecryption({ contract, functionName: 'verify' });
+
+    await verify({ abiEncodedClearValues: '0x01', decryptionProof: '0x02' }, 7n);
+    expect(call).toHaveBeenCalledWith(7n, '0x01', '0x02');
+    expect(status.value).toBe('confirmed');
+    expect(hash.value).toBe('0xabc');
+  });
+});
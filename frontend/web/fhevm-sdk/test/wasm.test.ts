@@ -0,0 +1,60 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { WasmProgressEvent, getWasmUrls, loadRelayerSdk } from '../src/core/index.js';
+
+// initSDK fetches the files the bundler emitted when it gets no bytes, like the real 'npm' build does
+vi.mock('@zama-fhe/relayer-sdk/web', () => ({
+  initSDK: vi.fn(async ({ tfheParams }: { tfheParams?: Uint8Array }) => {
+    if (tfheParams) return true;
+    await fetch('/assets/tfhe_bg-1a2b3c.wasm');
+    await fetch('/assets/kms_lib_bg-4d5e6f.wasm');
+    return true;
+  }),
+}));
+
+const wasmResponse = () => new Response(new Uint8Array(8), { headers: { 'Content-Length': '8' } });
+
+describe('loadRelayerSdk', () => {
+  const originalFetch = globalThis.fetch;
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  it('builds URLs for URL-based strategies only', () => {
+    expect(getWasmUrls({ source: 'npm' })).toBeUndefined();
+    expect(getWasmUrls({ source: 'self-hosted', baseUrl: '/wasm' })).toEqual({
+      tfhe: '/wasm/tfhe_bg.wasm',
+      kms: '/wasm/kms_lib_bg.wasm',
+    });
+  });
+
+  it('reports download progress for URL-based strategies', async () => {
+    const fetched: string[] = [];
+    globalThis.fetch = vi.fn(async (input: any) => {
+      fetched.push(String(input));
+      return wasmResponse();
+    });
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+
+    const events: WasmProgressEvent[] = [];
+    await loadRelayerSdk({ strategy: { source: 'self-hosted', baseUrl: '/wasm' }, onProgress: event => events.push(event) });
+
+    expect(fetched).toEqual(['/wasm/tfhe_bg.wasm', '/wasm/kms_lib_bg.wasm']);
+    expect(events.filter(({ loaded }) => loaded === 8).map(({ asset, total }) => [asset, total])).toEqual([
+      ['tfhe', 8],
+      ['kms', 8],
+    ]);
+  });
+
+  it('leaves fetch alone with the npm strategy', async () => {
+    const stub = vi.fn(async () => wasmResponse());
+    globalThis.fetch = stub;
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+
+    const onProgress = vi.fn();
+    await loadRelayerSdk({ onProgress });
+
+    expect(stub).toHaveBeenCalledTimes(2);
+    expect(onProgress).not.toHaveBeenCalled();
+    expect(globalThis.fetch).toBe(stub);
+  });
+});
@@ -0,0 +1,14 @@
+import { defineConfig } from 'vitest/config';
+
+// Keeps `npm test` from picking up the app's vite.config.ts one directory up
+export default defineConfig({
+  test: {
+    include: ['test/**/*.test.ts'],
+    environment: 'node',
+    restoreMocks: true,
+    coverage: {
+      provider: 'v8',
+      include: ['src/**/*.ts'],
+    },
+  },
+});
@@ -4,7 +4,35 @@ import React, { useEffect, useState } from "react";
 import { getContractReadOnly, getContractWithSigner } from "./components/useContract";
 import "./App.css";
 import { useAccount } from 'wagmi';
-import { useFhevm, useEncrypt, useDecrypt } from '../fhevm-sdk/src';
+import { useQueryClient } from '@tanstack/react-query';
+import { ethers } from 'ethers';
+import {
+  useFhevm,
+  useEncrypt,
+  usePublicDecrypt,
+  useVerifyDecryption,
+  useContractRead,
+  useContractReads,
+  useContractWrite,
+  useEncryptedValue,
+  contractReadKey,
+  toFhevmError,
+  UserRejectedError,
+  ContractRevertError,
+  FhevmPhase,
+} from '../fhevm-sdk/src';
+import { useEthersSigner } from '../fhevm-sdk/src/wagmi';
+
+const FHEVM_PHASE_LABELS: Record<FhevmPhase, string> = {
+  'idle': "Preparing encryption engine",
+  'wasm-loading': "Downloading encryption engine",
+  'wasm-ready': "Encryption engine loaded",
+  'fetching-public-key': "Fetching network public key",
+  'instance-ready': "Encryption system ready",
+  'reinitializing': "Reconnecting encryption system",
+  'disposed': "Encryption system stopped",
+  'error': "Encryption system failed to start",
+};
 
 interface CarbonOffset {
   id: string;
@@ -23,9 +51,8 @@ interface CarbonOffset {
 const App: React.FC = () => {
   const { address, isConnected } = useAccount();
   const [loading, setLoading] = useState(true);
-  const [offsets, setOffsets] = useState<CarbonOffset[]>([]);
+  const [readContract, setReadContract] = useState<ethers.Contract | null>(null);
   const [showCreateModal, setShowCreateModal] = useState(false);
-  const [creatingOffset, setCreatingOffset] = useState(false);
   const [transactionStatus, setTransactionStatus] = useState<{ visible: boolean; status: "pending" | "success" | "error"; message: string; }>({ 
     visible: false, 
     status: "pending", 
@@ -35,94 +62,83 @@ const App: React.FC = () => {
   const [selectedOffset, setSelectedOffset] = useState<CarbonOffset | null>(null);
   const [isDecrypting, setIsDecrypting] = useState(false);
   const [contractAddress, setContractAddress] = useState("");
-  const [fhevmInitializing, setFhevmInitializing] = useState(false);
   const [searchTerm, setSearchTerm] = useState("");
   const [filterVerified, setFilterVerified] = useState(false);
 
-  const { initialize, isInitialized } = useFhevm();
+  const { isInitialized, status: fhevmStatus, error: fhevmError, initialize: initializeFhevm, phase: fhevmPhase, progress: fhevmProgress } = useFhevm();
   const { encrypt, isEncrypting } = useEncrypt();
-  const { verifyDecryption, isDecrypting: fheIsDecrypting } = useDecrypt();
+  const publicDecrypt = usePublicDecrypt();
+  const signer = useEthersSigner();
+  const queryClient = useQueryClient();
 
-  useEffect(() => {
-    const initFhevmAfterConnection = async () => {
-      if (!isConnected || isInitialized || fhevmInitializing) return;
-      
-      try {
-        setFhevmInitializing(true);
-        await initialize();
-      } catch (error) {
-        setTransactionStatus({ 
-          visible: true, 
-          status: "error", 
-          message: "FHEVM initialization failed" 
-        });
-        setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
-      } finally {
-        setFhevmInitializing(false);
-      }
-    };
+  const businessIds = useContractRead<string[]>({ contract: readContract, functionName: 'getAllBusinessIds', enabled: isConnected });
+  // Plain array: ethers Result does not support every array method
+  const ids = Array.from(businessIds.data ?? []);
+  const businessReads = useContractReads({
+    contract: readContract,
+    calls: ids.map(businessId => ({ functionName: 'getBusinessData', args: [businessId] })),
+  });
+  const offsets: CarbonOffset[] = ids.flatMap((businessId, i) => {
+    const businessData = businessReads[i]?.data;
+    if (!businessData) return [];
+    return [{
+      id: businessId,
+      name: businessData.name,
+      description: businessData.description,
+      price: Number(businessData.publicValue1) || 0,
+      carbonAmount: Number(businessData.publicValue2) || 0,
+      creator: businessData.creator,
+      timestamp: Number(businessData.timestamp),
+      isVerified: businessData.isVerified,
+      decryptedValue: Number(businessData.decryptedValue) || 0,
+      publicValue1: Number(businessData.publicValue1) || 0,
+      publicValue2: Number(businessData.publicValue2) || 0
+    }];
+  });
 
-    initFhevmAfterConnection();
-  }, [isConnected, isInitialized, initialize, fhevmInitializing]);
+  // Confirmation refetches the business list and data through the read cache
+  const createBusinessData = useContractWrite({
+    contract: () => getContractWithSigner(signer),
+    functionName: 'createBusinessData',
+  });
+  // Confirmation refetches the offset, now verified, through the read cache
+  const verifyDecryption = useVerifyDecryption({
+    contract: () => getContractWithSigner(signer),
+    functionName: 'verifyDecryption',
+  });
+  const creatingOffset = isEncrypting || createBusinessData.status === 'signing' || createBusinessData.status === 'pending';
 
   useEffect(() => {
-    const loadDataAndContract = async () => {
+    const loadContract = async () => {
       if (!isConnected) {
         setLoading(false);
         return;
       }
       
       try {
-        await loadData();
         const contract = await getContractReadOnly();
+        setReadContract(contract);
         if (contract) setContractAddress(await contract.getAddress());
       } catch (error) {
-        console.error('Failed to load data:', error);
+        console.error('Failed to load contract:', error);
       } finally {
         setLoading(false);
       }
     };
 
-    loadDataAndContract();
+    loadContract();
   }, [isConnected]);
 
-  const loadData = async () => {
-    if (!isConnected) return;
-    
-    try {
-      const contract = await getContractReadOnly();
-      if (!contract) return;
-      
-      const businessIds = await contract.getAllBusinessIds();
-      const offsetsList: CarbonOffset[] = [];
-      
-      for (const businessId of businessIds) {
-        try {
-          const businessData = await contract.getBusinessData(businessId);
-          offsetsList.push({
-            id: businessId,
-            name: businessData.name,
-            description: businessData.description,
-            price: Number(businessData.publicValue1) || 0,
-            carbonAmount: Number(businessData.publicValue2) || 0,
-            creator: businessData.creator,
-            timestamp: Number(businessData.timestamp),
-            isVerified: businessData.isVerified,
-            decryptedValue: Number(businessData.decryptedValue) || 0,
-            publicValue1: Number(businessData.publicValue1) || 0,
-            publicValue2: Number(businessData.publicValue2) || 0
-          });
-        } catch (e) {
-          console.error('Error loading business data:', e);
-        }
-      }
-      
-      setOffsets(offsetsList);
-    } catch (e) {
-      setTransactionStatus({ visible: true, status: "error", message: "Failed to load data" });
-      setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
-    }
-  };
+  useEffect(() => {
+    if (!businessIds.error) return;
+    setTransactionStatus({ visible: true, status: "error", message: "Failed to load data" });
+    setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
+  }, [businessIds.error]);
+
+  useEffect(() => {
+    if (createBusinessData.status !== 'pending') return;
+    setTransactionStatus({ visible: true, status: "pending", message: "Waiting for transaction confirmation..." });
+  }, [createBusinessData.status]);
 
   const createOffset = async () => {
     if (!isConnected || !address) { 
@@ -131,19 +147,15 @@ const App: React.FC = () => {
       return; 
     }
     
-    setCreatingOffset(true);
     setTransactionStatus({ visible: true, status: "pending", message: "Creating carbon offset with Zama FHE..." });
     
     try {
-      const contract = await getContractWithSigner();
-      if (!contract) throw new Error("Failed to get contract with signer");
-      
       const carbonAmount = parseInt(newOffsetData.carbonAmount) || 0;
       const businessId = `offset-${Date.now()}`;
       
       const encryptedResult = await encrypt(contractAddress, address, carbonAmount);
       
-      const tx = await contract.createBusinessData(
+      await createBusinessData.write(
         businessId,
         newOffsetData.name,
         encryptedResult.encryptedData,
@@ -153,25 +165,20 @@ const App: React.FC = () => {
         newOffsetData.description
       );
       
-      setTransactionStatus({ visible: true, status: "pending", message: "Waiting for transaction confirmation..." });
-      await tx.wait();
-      
       setTransactionStatus({ visible: true, status: "success", message: "Carbon offset created successfully!" });
       setTimeout(() => {
         setTransactionStatus({ visible: false, status: "pending", message: "" });
       }, 2000);
       
-      await loadData();
       setShowCreateModal(false);
       setNewOffsetData({ name: "", description: "", carbonAmount: "", price: "" });
     } catch (e: any) {
-      const errorMessage = e.message?.includes("user rejected transaction") 
+      const error = toFhevmError(e);
+      const errorMessage = error instanceof UserRejectedError
         ? "Transaction rejected by user" 
-        : "Submission failed: " + (e.message || "Unknown error");
+        : "Submission failed: " + (error.message || "Unknown error");
       setTransactionStatus({ visible: true, status: "error", message: errorMessage });
       setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
-    } finally { 
-      setCreatingOffset(false); 
     }
   };
 
@@ -203,23 +210,15 @@ const App: React.FC = () => {
         return storedValue;
       }
       
-      const contractWrite = await getContractWithSigner();
-      if (!contractWrite) return null;
-      
       const encryptedValueHandle = await contractRead.getEncryptedValue(businessId);
       
-      const result = await verifyDecryption(
-        [encryptedValueHandle],
-        contractAddress,
-        (abiEncodedClearValues: string, decryptionProof: string) => 
-          contractWrite.verifyDecryption(businessId, abiEncodedClearValues, decryptionProof)
-      );
+      const decryption = await publicDecrypt.decrypt([encryptedValueHandle]);
       
       setTransactionStatus({ visible: true, status: "pending", message: "Verifying decryption on-chain..." });
       
-      const clearValue = result.decryptionResult.clearValues[encryptedValueHandle];
+      await verifyDecryption.verify(decryption, businessId);
       
-      await loadData();
+      const clearValue = decryption.clearValues[encryptedValueHandle];
       
       setTransactionStatus({ visible: true, status: "success", message: "Carbon amount decrypted and verified successfully!" });
       setTimeout(() => {
@@ -229,7 +228,8 @@ const App: React.FC = () => {
       return Number(clearValue);
       
     } catch (e: any) { 
-      if (e.message?.includes("Data already verified")) {
+      const error = toFhevmError(e);
+      if (error instanceof ContractRevertError && error.reason === "Data already verified") {
         setTransactionStatus({ 
           visible: true, 
           status: "success", 
@@ -239,14 +239,16 @@ const App: React.FC = () => {
           setTransactionStatus({ visible: false, status: "pending", message: "" });
         }, 2000);
         
-        await loadData();
+        await queryClient.invalidateQueries({ queryKey: contractReadKey(contractAddress) });
         return null;
       }
       
       setTransactionStatus({ 
         visible: true, 
         status: "error", 
-        message: "Decryption failed: " + (e.message || "Unknown error") 
+        message: error instanceof UserRejectedError
+          ? "Transaction rejected by user"
+          : "Decryption failed: " + (error.message || "Unknown error") 
       });
       setTimeout(() => setTransactionStatus({ visible: false, status: "pending", message: "" }), 3000);
       return null; 
@@ -320,17 +322,33 @@ const App: React.FC = () => {
     );
   }
 
-  if (!isInitialized || fhevmInitializing) {
+  // FhevmProvider initializes once the wallet is connected; a failure waits for the user to retry
+  if (fhevmStatus === 'error') {
+    return (
+      <div className="loading-screen">
+        <p>FHE Encryption System failed to start</p>
+        <p className="loading-note">{fhevmError}</p>
+        <button onClick={() => initializeFhevm().catch(() => undefined)} className="create-btn">
+          Retry
+        </button>
+      </div>
+    );
+  }
+
+  if (!isInitialized) {
     return (
       <div className="loading-screen">
         <div className="fhe-spinner"></div>
         <p>Initializing FHE Encryption System...</p>
-        <p className="loading-note">Securing carbon offset transactions</p>
+        <div className="init-progress">
+          <div className="init-progress-bar" style={{ width: `${fhevmProgress}%` }}></div>
+        </div>
+        <p className="loading-note">{FHEVM_PHASE_LABELS[fhevmPhase]} ({fhevmProgress}%)</p>
       </div>
     );
   }
 
-  if (loading) return (
+  if (loading || businessIds.isLoading) return (
     <div className="loading-screen">
       <div className="fhe-spinner"></div>
       <p>Loading carbon offset market...</p>
@@ -451,8 +469,10 @@ const App: React.FC = () => {
       {selectedOffset && (
         <OffsetDetailModal 
           offset={selectedOffset} 
+          readContract={readContract}
+          contractAddress={contractAddress}
           onClose={() => setSelectedOffset(null)} 
-          isDecrypting={isDecrypting || fheIsDecrypting} 
+          isDecrypting={isDecrypting} 
           decryptData={() => decryptData(selectedOffset.id)}
         />
       )}
@@ -587,13 +607,30 @@ const ModalCreateOffset: React.FC<{
 const OffsetDetailModal: React.FC<{
   offset: CarbonOffset;
   onClose: () => void;
+  readContract: ethers.Contract | null;
+  contractAddress: string;
   isDecrypting: boolean;
   decryptData: () => Promise<number | null>;
-}> = ({ offset, onClose, isDecrypting, decryptData }) => {
+}> = ({ offset, onClose, readContract, contractAddress, isDecrypting, decryptData }) => {
+  const { data: encryptedValueHandle } = useContractRead<string>({
+    contract: readContract,
+    functionName: 'getEncryptedValue',
+    args: [offset.id],
+    enabled: !offset.isVerified,
+  });
+  // Owners peek at their private tonnage through user decryption: no transaction, and the signed session is reused
+  const peek = useEncryptedValue(encryptedValueHandle, contractAddress, { mode: 'user' });
+
   const handleDecrypt = async () => {
     await decryptData();
   };
 
+  const handlePeek = () => {
+    // A failed reveal is shown from peek.error below
+    if (peek.status === 'revealed') peek.hide();
+    else peek.reveal().catch(() => undefined);
+  };
+
   return (
     <div className="modal-overlay">
       <div className="offset-detail-modal">
@@ -634,9 +671,19 @@ const OffsetDetailModal: React.FC<{
               <div className="data-value">
                 {offset.isVerified ? 
                   `${offset.decryptedValue} tons (On-chain Verified)` : 
-                  "🔒 FHE Encrypted Integer"
+                  peek.value !== null ? `${peek.value} tons (Decrypted off-chain)` : "🔒 FHE Encrypted Integer"
                 }
               </div>
+              {!offset.isVerified && (
+                <button 
+                  className="decrypt-btn"
+                  onClick={handlePeek} 
+                  disabled={!encryptedValueHandle || peek.status === 'decrypting'}
+                >
+                  {peek.status === 'decrypting' ? "🔓 Decrypting..." : 
+                   peek.status === 'revealed' ? "🙈 Hide" : "👁️ Peek"}
+                </button>
+              )}
               <button 
                 className={`decrypt-btn ${offset.isVerified ? 'verified' : ''}`}
                 onClick={handleDecrypt} 
@@ -646,6 +693,9 @@ const OffsetDetailModal: React.FC<{
                  offset.isVerified ? "✅ Verified" : "🔓 Verify Amount"}
               </button>
             </div>
+            {peek.status === 'error' && (
+              <div className="peek-error">Decryption failed: {peek.error}</div>
+            )}
             
             <div className="fhe-info">
               <div className="fhe-icon">🔐</div>
@@ -4,7 +4,15 @@ import abiJson from "../abi/UniversalFHEAdapter.json";
 import configJson from "../config.json";
 
 export const ABI = (abiJson as any).abi || abiJson;
-export const config = configJson;
+
+// VITE_FHEVM_MODE=mock runs against a local `npx hardhat node` with the FHEVM mock
+export const isMockMode = import.meta.env.VITE_FHEVM_MODE === 'mock';
+export const LOCAL_RPC_URL = "http://127.0.0.1:8545";
+
+export const config = {
+  ...configJson,
+  contractAddress: import.meta.env.VITE_CONTRACT_ADDRESS || configJson.contractAddress,
+};
 
 const retry = async <T>(fn: () => Promise<T>, retries = 3, delay = 1000): Promise<T> => {
   try {
@@ -19,6 +27,10 @@ const retry = async <T>(fn: () => Promise<T>, retries = 3, delay = 1000): Promis
 };
 
 const getTestnetProvider = async () => {
+  if (isMockMode) {
+    return new ethers.JsonRpcProvider(LOCAL_RPC_URL, { name: "hardhat", chainId: 31337 });
+  }
+
   const rpcUrls = [
     "https://sepolia.infura.io/v3/96406da962744120afbe0cf64c8bd7b3",
     "https://rpc.ankr.com/eth_sepolia/f5a86d4556184938f528d746ecfa1eabcf7e4b970fc86df257418084c9305ae4",
@@ -66,22 +78,17 @@ export async function getContractReadOnly() {
   }
 }
 
-export async function getContractWithSigner() {
-  if (!(window as any).ethereum) {
-    throw new Error("No injected wallet");
+// The signer comes from the connected wagmi wallet (useEthersSigner), whichever connector it uses
+export async function getContractWithSigner(signer?: ethers.Signer) {
+  if (!signer) {
+    throw new Error("No connected wallet");
   }
 
-  // const provider = new ethers.BrowserProvider(window.ethereum);
-  // const network = await provider.getNetwork();
-  // console.log("network ID:", network.chainId);
-
-  if (window.ethereum && window.ethereum.chainId !== '0xaa36a7') {
+  if (!isMockMode && (await signer.provider?.getNetwork())?.chainId !== 11155111n) {
     alert("Please switch to Sepolia test network");
   }
 
   try {
-    const provider = new ethers.BrowserProvider((window as any).ethereum);
-    const signer = await provider.getSigner();
     const contract = new ethers.Contract(config.contractAddress, ABI, signer);
     return contract;
   } catch (error) {
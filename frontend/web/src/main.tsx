@@ -5,19 +5,27 @@ import { getDefaultConfig, RainbowKitProvider, lightTheme } from '@rainbow-me/ra
 import { WagmiConfig } from 'wagmi';
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
 import '@rainbow-me/rainbowkit/styles.css';
-import { sepolia } from 'wagmi/chains';
+import { hardhat, sepolia } from 'wagmi/chains';
 import { BrowserRouter } from 'react-router-dom';
+import { isMockMode, LOCAL_RPC_URL } from './components/useContract';
+import { FhevmClientConfig } from '../fhevm-sdk/src';
+import { WagmiFhevmProvider } from '../fhevm-sdk/src/wagmi';
 
 const projectId = '4eeb32175359e6b21f4e3ceae163ccea';
 
 const config = getDefaultConfig({
   appName: '',
   projectId: projectId,
-  chains: [sepolia],
+  chains: isMockMode ? [hardhat] : [sepolia],
 });
 
 const queryClient = new QueryClient();
 
+const fhevmConfig: FhevmClientConfig = isMockMode
+  ? { mode: 'mock', rpcUrl: LOCAL_RPC_URL }
+  // Keeps WASM loading, encryption and decryption off the UI thread
+  : { worker: () => new Worker(new URL('../fhevm-sdk/src/core/fhevm.worker.ts', import.meta.url), { type: 'module' }) };
+
 const calculateBrightness = (r: number, g: number, b: number) => {
   return (r * 299 + g * 587 + b * 114) / 1000;
 };
@@ -122,7 +130,10 @@ createRoot(document.getElementById('root')!).render(
       <WagmiConfig config={config}>
         <BrowserRouter>
           <AdaptiveThemeProvider>
-            <App />
+            {/* Initializes FHEVM on whichever wallet RainbowKit connected */}
+            <WagmiFhevmProvider config={fhevmConfig}>
+              <App />
+            </WagmiFhevmProvider>
           </AdaptiveThemeProvider>
         </BrowserRouter>
       </WagmiConfig>
@@ -1,16 +1,17 @@
 // src/types.d.ts
 interface Window {
+  // Whichever extension injected last; wallets are discovered through EIP-6963 instead
   ethereum?: {
-    isMetaMask?: boolean;
-    isOkxWallet?: boolean;
-    isTrust?: boolean;
-    isCoinbaseWallet?: boolean;
     request: (request: { method: string; params?: any[] }) => Promise<any>;
     on: (event: string, handler: (...args: any[]) => void) => void;
     removeListener: (event: string, handler: (...args: any[]) => void) => void;
-    selectedAddress?: string;
-    chainId?: string;
   };
 }
 
-
+// EIP-6963 wallet announcement
+interface WindowEventMap {
+  'eip6963:announceProvider': CustomEvent<{
+    info: { uuid: string; name: string; icon: string; rdns: string };
+    provider: any;
+  }>;
+}
@@ -0,0 +1,6 @@
+/// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_FHEVM_MODE?: 'relayer' | 'mock';
+  readonly VITE_CONTRACT_ADDRESS?: string;
+}
@@ -3,6 +3,10 @@ import react from "@vitejs/plugin-react";
 
 export default defineConfig({
   plugins: [react()],
+  resolve: {
+    // The SDK is imported from source; its hooks must share the app's React, wagmi and query client contexts
+    dedupe: ['react', 'react-dom', 'wagmi', '@tanstack/react-query']
+  },
   define: {
     'process.env': process.env
   },
@@ -12,8 +16,14 @@ export default defineConfig({
       'import-assertions': true
     }
   },
+  // The FHEVM worker imports the relayer SDK dynamically, which needs ES module workers
+  worker: {
+    format: "es"
+  },
   optimizeDeps: {
     include: ['@base-org/account'],
+    // Keep the relayer SDK's `new URL('*.wasm', import.meta.url)` pointing at its own files
+    exclude: ['@zama-fhe/relayer-sdk'],
     esbuildOptions: {
       target: "es2022",
       supported: {